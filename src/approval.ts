@@ -0,0 +1,267 @@
+/**
+ * Host-side approval of `scope/elevate` requests (MCPL Section 7).
+ *
+ * A `ScopeApprovalEngine` answers each request by running it through, in order:
+ *   1. auto-deny rules
+ *   2. grants remembered from earlier approvals
+ *   3. auto-approve rules
+ *   4. the interactive `prompt` callback
+ * and denies it if none of them decide. Rules match the feature set and scope
+ * label with the same patterns as `ScopeConfig` (see `matchesScopePattern`).
+ *
+ * Approvals can be remembered for the lifetime of the engine, or persisted to
+ * a JSON file so they survive restarts. Either kind may expire.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+import type { McplConnection } from './connection.js';
+import { method } from './methods.js';
+import type { ScopeElevateParams, ScopeElevateResult } from './methods.js';
+import { matchesScopePattern } from './scope.js';
+import { writeFileAtomic } from './files.js';
+import { typedEmitter } from './emitter.js';
+
+// ── Public Types ──
+
+export interface ApprovalRule {
+  /** Feature set pattern. Omitted = any feature set. */
+  featureSet?: string;
+  /** Scope label pattern. Omitted = any label. */
+  label?: string;
+  /** Reason returned with a denial. */
+  reason?: string;
+}
+
+/** How long an approval is remembered. */
+export type GrantDuration = 'once' | 'session' | 'persist';
+
+export interface ApprovalDecision {
+  approved: boolean;
+  reason?: string;
+  /** Returned to the server in `ScopeElevateResult.payload`. */
+  payload?: unknown;
+  /** Remember an approval. Defaults to 'once'. Ignored for denials. */
+  remember?: GrantDuration;
+  /** Grant lifetime (ms). Overrides `defaultGrantTtl`. */
+  ttl?: number;
+}
+
+export type ApprovalPrompt = (request: ScopeElevateParams) => ApprovalDecision | Promise<ApprovalDecision>;
+
+export interface ScopeGrant {
+  id: string;
+  featureSet: string;
+  label: string;
+  payload?: unknown;
+  /** ISO 8601 timestamps. */
+  grantedAt: string;
+  expiresAt?: string;
+  persistent: boolean;
+}
+
+export interface ScopeApprovalOptions {
+  autoApprove?: ApprovalRule[];
+  autoDeny?: ApprovalRule[];
+  /** Called for requests no rule or grant decides. Without it they are denied. */
+  prompt?: ApprovalPrompt;
+  /** JSON file for persistent grants. Required for `remember: 'persist'`. */
+  grantsFile?: string;
+  /** Lifetime (ms) of remembered grants without their own `ttl`. Defaults to no expiry. */
+  defaultGrantTtl?: number;
+  /** Clock, for tests. */
+  now?: () => number;
+}
+
+export interface ScopeApprovalEvents {
+  decision: [request: ScopeElevateParams, result: ScopeElevateResult];
+  grant: [grant: ScopeGrant];
+  revoke: [grant: ScopeGrant];
+}
+
+interface GrantsFile {
+  version: 1;
+  grants: ScopeGrant[];
+}
+
+// ── Engine ──
+
+export class ScopeApprovalEngine extends typedEmitter<ScopeApprovalEvents>() {
+  private options: ScopeApprovalOptions;
+  private grants = new Map<string, ScopeGrant>();
+  private now: () => number;
+
+  constructor(options: ScopeApprovalOptions = {}) {
+    super();
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Create an engine and load persisted grants from `grantsFile`, if any. */
+  static async load(options: ScopeApprovalOptions = {}): Promise<ScopeApprovalEngine> {
+    const engine = new ScopeApprovalEngine(options);
+    await engine.loadGrants();
+    return engine;
+  }
+
+  /** Answer incoming `scope/elevate` requests on a connection. Returns a remover. */
+  attach(connection: McplConnection): () => void {
+    connection.handle(method.SCOPE_ELEVATE, (params) => this.evaluate(params));
+    return () => connection.removeHandler(method.SCOPE_ELEVATE);
+  }
+
+  /** Decide a `scope/elevate` request. */
+  async evaluate(request: ScopeElevateParams): Promise<ScopeElevateResult> {
+    const result = await this.decide(request);
+    this.emit('decision', request, result);
+    return result;
+  }
+
+  // ── Grants ──
+
+  /** Active (unexpired) grants. */
+  listGrants(): ScopeGrant[] {
+    this.pruneExpired();
+    return [...this.grants.values()];
+  }
+
+  /**
+   * Remember an approval for a feature set and label. `persist` requires
+   * `grantsFile`.
+   */
+  async grant(
+    featureSet: string,
+    label: string,
+    options: { duration?: Exclude<GrantDuration, 'once'>; ttl?: number; payload?: unknown } = {},
+  ): Promise<ScopeGrant> {
+    const persistent = options.duration === 'persist';
+    if (persistent && !this.options.grantsFile) {
+      throw new Error('Persistent grants require a grantsFile');
+    }
+
+    const now = this.now();
+    const ttl = options.ttl ?? this.options.defaultGrantTtl;
+    const grant: ScopeGrant = {
+      id: randomUUID(),
+      featureSet,
+      label,
+      grantedAt: new Date(now).toISOString(),
+      persistent,
+    };
+    if (options.payload !== undefined) grant.payload = options.payload;
+    if (ttl !== undefined) grant.expiresAt = new Date(now + ttl).toISOString();
+
+    // A new grant replaces any older one for the same request
+    let replacedPersistent = false;
+    for (const existing of [...this.grants.values()]) {
+      if (existing.featureSet !== featureSet || existing.label !== label) continue;
+      this.grants.delete(existing.id);
+      replacedPersistent ||= existing.persistent;
+    }
+    this.grants.set(grant.id, grant);
+    if (persistent || replacedPersistent) await this.saveGrants();
+    this.emit('grant', grant);
+    return grant;
+  }
+
+  /** Revoke a grant by id, or every grant matching a predicate. Returns how many were revoked. */
+  async revoke(target: string | ((grant: ScopeGrant) => boolean)): Promise<number> {
+    const match = typeof target === 'string' ? (g: ScopeGrant) => g.id === target : target;
+    const revoked = [...this.grants.values()].filter(match);
+    for (const grant of revoked) this.grants.delete(grant.id);
+    if (revoked.some((g) => g.persistent)) await this.saveGrants();
+    for (const grant of revoked) this.emit('revoke', grant);
+    return revoked.length;
+  }
+
+  // ── Internal ──
+
+  private async decide(request: ScopeElevateParams): Promise<ScopeElevateResult> {
+    const deny = findRule(this.options.autoDeny, request);
+    if (deny) return { approved: false, reason: deny.reason ?? 'Denied by policy' };
+
+    const grant = this.findGrant(request);
+    if (grant) return withPayload({ approved: true }, grant.payload);
+
+    if (findRule(this.options.autoApprove, request)) return { approved: true };
+
+    if (!this.options.prompt) return { approved: false, reason: 'No approval policy matched' };
+
+    const decision = await this.options.prompt(request);
+    if (!decision.approved) {
+      return { approved: false, reason: decision.reason ?? 'Denied by user' };
+    }
+
+    const remember = decision.remember ?? 'once';
+    if (remember !== 'once') {
+      await this.grant(request.featureSet, request.scope.label, {
+        duration: remember,
+        ttl: decision.ttl,
+        payload: decision.payload,
+      });
+    }
+    return withPayload({ approved: true }, decision.payload);
+  }
+
+  private findGrant(request: ScopeElevateParams): ScopeGrant | undefined {
+    this.pruneExpired();
+    for (const grant of this.grants.values()) {
+      if (grant.featureSet === request.featureSet && grant.label === request.scope.label) return grant;
+    }
+    return undefined;
+  }
+
+  private pruneExpired(): void {
+    const now = this.now();
+    for (const grant of [...this.grants.values()]) {
+      if (grant.expiresAt && Date.parse(grant.expiresAt) <= now) this.grants.delete(grant.id);
+    }
+  }
+
+  private async loadGrants(): Promise<void> {
+    const path = this.options.grantsFile;
+    if (!path) return;
+
+    let text: string;
+    try {
+      text = await readFile(path, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw err;
+    }
+
+    const file = JSON.parse(text) as GrantsFile;
+    for (const grant of file.grants ?? []) {
+      this.grants.set(grant.id, { ...grant, persistent: true });
+    }
+    this.pruneExpired();
+  }
+
+  /** Write persistent grants, replacing the file atomically. */
+  private async saveGrants(): Promise<void> {
+    const path = this.options.grantsFile;
+    if (!path) return;
+    this.pruneExpired();
+    const file: GrantsFile = {
+      version: 1,
+      grants: [...this.grants.values()].filter((g) => g.persistent),
+    };
+    await writeFileAtomic(path, JSON.stringify(file, null, 2) + '\n');
+  }
+}
+
+// ── Helpers ──
+
+function findRule(rules: ApprovalRule[] | undefined, request: ScopeElevateParams): ApprovalRule | undefined {
+  return rules?.find(
+    (rule) =>
+      (rule.featureSet === undefined || matchesScopePattern(rule.featureSet, request.featureSet)) &&
+      (rule.label === undefined || matchesScopePattern(rule.label, request.scope.label)),
+  );
+}
+
+function withPayload(result: ScopeElevateResult, payload: unknown): ScopeElevateResult {
+  if (payload !== undefined) result.payload = payload;
+  return result;
+}
@@ -0,0 +1,42 @@
+/**
+ * Exponential backoff shared by the retrying components (outbox, reconnect),
+ * and the interruptible wait they sleep on between attempts.
+ */
+
+export interface BackoffOptions {
+  /** First retry delay (ms). Defaults to 1000. */
+  initialDelay?: number;
+  /** Upper bound on the retry delay (ms). Defaults to 60000. */
+  maxDelay?: number;
+  /** Multiplier applied per failed attempt. Defaults to 2. */
+  factor?: number;
+}
+
+/** Delay (ms) before retry number `attempt` (0-based). */
+export function backoffDelay(options: BackoffOptions = {}, attempt: number): number {
+  const { initialDelay = 1000, maxDelay = 60_000, factor = 2 } = options;
+  return Math.min(maxDelay, initialDelay * factor ** attempt);
+}
+
+/** A wait between retries that can be cut short (e.g. by `close()` or a new connection). */
+export class RetryWait {
+  private current: { timer: ReturnType<typeof setTimeout>; wake: () => void } | undefined;
+
+  /** Resolve after `ms`, or sooner if `cancel()` is called. */
+  sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        this.current = undefined;
+        resolve();
+      };
+      this.current = { timer: setTimeout(wake, ms), wake };
+    });
+  }
+
+  /** End the pending wait now, if any. */
+  cancel(): void {
+    if (!this.current) return;
+    clearTimeout(this.current.timer);
+    this.current.wake();
+  }
+}
@@ -6,7 +6,14 @@
  * `capabilities.experimental.mcpl`.
  */
 
-import type { FeatureSetDeclaration } from './methods.js';
+import type { FeatureSetDeclaration, McplMethod } from './methods.js';
+import { method } from './methods.js';
+
+/** MCPL extension version implemented by this library. */
+export const MCPL_VERSION = '0.4';
+
+/** MCP protocol version sent in `initialize` by default. */
+export const MCP_PROTOCOL_VERSION = '2024-11-05';
 
 export interface McplCapabilities {
   version: string;
@@ -79,3 +86,127 @@ export function hasInferenceStreaming(caps: McplCapabilities): boolean {
 export function extractMcpl(caps: InitializeCapabilities): McplCapabilities | undefined {
   return caps.experimental?.mcpl;
 }
+
+/**
+ * Whether two MCPL versions can interoperate: same major version, and for
+ * pre-1.0 versions the same minor version too.
+ */
+export function isCompatibleMcplVersion(a: string, b: string): boolean {
+  const [aMajor, aMinor] = parseVersion(a);
+  const [bMajor, bMinor] = parseVersion(b);
+  if (Number.isNaN(aMajor) || Number.isNaN(bMajor) || aMajor !== bMajor) return false;
+  return aMajor > 0 || aMinor === bMinor;
+}
+
+function parseVersion(version: string): number[] {
+  return version.split('.').map((part) => Number.parseInt(part, 10));
+}
+
+/** Lower of two dotted version strings. */
+function minVersion(a: string, b: string): string {
+  const pa = parseVersion(a);
+  const pb = parseVersion(b);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff < 0 ? a : b;
+  }
+  return a;
+}
+
+// ── Negotiation ──
+
+/**
+ * Capabilities both sides of a session support. A feature is on only if the
+ * host and the server both declared it.
+ */
+export interface NegotiatedCapabilities {
+  version: string;
+  pushEvents: boolean;
+  contextHooks: {
+    beforeInference: boolean;
+    /** Present only if both sides declared afterInference; blocking only if both allow it. */
+    afterInference?: AfterInferenceCap;
+  };
+  inferenceRequest: boolean;
+  inferenceStreaming: boolean;
+  streamObserver: boolean;
+  rollback: boolean;
+  channels: boolean;
+  modelInfo: boolean;
+  scopedAccess: boolean;
+  /** Feature sets declared by the server. */
+  featureSets: FeatureSetDeclaration[];
+}
+
+/** Intersect host and server MCPL capabilities. */
+export function negotiateCapabilities(host: McplCapabilities, server: McplCapabilities): NegotiatedCapabilities {
+  const hostAfter = host.contextHooks?.afterInference;
+  const serverAfter = server.contextHooks?.afterInference;
+
+  return {
+    version: minVersion(host.version, server.version),
+    pushEvents: host.pushEvents === true && server.pushEvents === true,
+    contextHooks: {
+      beforeInference: host.contextHooks?.beforeInference === true && server.contextHooks?.beforeInference === true,
+      ...(hostAfter && serverAfter && { afterInference: { blocking: hostAfter.blocking && serverAfter.blocking } }),
+    },
+    inferenceRequest: hasInferenceRequest(host) && hasInferenceRequest(server),
+    inferenceStreaming: hasInferenceStreaming(host) && hasInferenceStreaming(server),
+    streamObserver: host.streamObserver === true && server.streamObserver === true,
+    rollback: host.rollback === true && server.rollback === true,
+    channels: host.channels === true && server.channels === true,
+    modelInfo: host.modelInfo === true && server.modelInfo === true,
+    scopedAccess: host.scopedAccess === true && server.scopedAccess === true,
+    featureSets: server.featureSets ?? [],
+  };
+}
+
+// ── Capability Gating ──
+
+/** A negotiated capability that methods can depend on. */
+export type CapabilityName =
+  | 'pushEvents'
+  | 'contextHooks.beforeInference'
+  | 'contextHooks.afterInference'
+  | 'inferenceRequest'
+  | 'inferenceStreaming'
+  | 'streamObserver'
+  | 'rollback'
+  | 'channels'
+  | 'modelInfo'
+  | 'scopedAccess';
+
+/** Capabilities each MCPL method requires. Methods not listed are always allowed. */
+export const methodCapabilities: Partial<Record<McplMethod, CapabilityName[]>> = {
+  [method.SCOPE_ELEVATE]: ['scopedAccess'],
+  [method.STATE_ROLLBACK]: ['rollback'],
+  [method.PUSH_EVENT]: ['pushEvents'],
+  [method.CONTEXT_BEFORE_INFERENCE]: ['contextHooks.beforeInference'],
+  [method.CONTEXT_AFTER_INFERENCE]: ['contextHooks.afterInference'],
+  [method.INFERENCE_REQUEST]: ['inferenceRequest'],
+  [method.INFERENCE_CHUNK]: ['inferenceStreaming'],
+  [method.MODEL_INFO]: ['modelInfo'],
+  [method.CHANNELS_REGISTER]: ['channels'],
+  [method.CHANNELS_CHANGED]: ['channels'],
+  [method.CHANNELS_LIST]: ['channels'],
+  [method.CHANNELS_OPEN]: ['channels'],
+  [method.CHANNELS_CLOSE]: ['channels'],
+  [method.CHANNELS_OUTGOING_CHUNK]: ['channels', 'streamObserver'],
+  [method.CHANNELS_OUTGOING_COMPLETE]: ['channels'],
+  [method.CHANNELS_PUBLISH]: ['channels'],
+  [method.CHANNELS_INCOMING]: ['channels'],
+};
+
+export function isCapabilityEnabled(caps: NegotiatedCapabilities, name: CapabilityName): boolean {
+  switch (name) {
+    case 'contextHooks.beforeInference': return caps.contextHooks.beforeInference;
+    case 'contextHooks.afterInference': return caps.contextHooks.afterInference !== undefined;
+    default: return caps[name];
+  }
+}
+
+/** Capabilities a method needs that were not negotiated (empty if it is allowed). */
+export function missingCapabilities(caps: NegotiatedCapabilities, methodName: string): CapabilityName[] {
+  const required = methodCapabilities[methodName as McplMethod] ?? [];
+  return required.filter((name) => !isCapabilityEnabled(caps, name));
+}
@@ -0,0 +1,332 @@
+/**
+ * Checkpoint history for `state/rollback` (MCPL Section 8).
+ *
+ * A `CheckpointStore` keeps one tree of checkpoints per feature set. Each
+ * checkpoint stores either a JSON Patch against its parent or a full
+ * snapshot; state at any checkpoint is rebuilt by replaying patches from the
+ * nearest snapshot above it (or from `initialState` at the root). Rolling back
+ * moves the feature set's head, so the next checkpoint starts a new branch.
+ *
+ * Old checkpoints are pruned by age and count. A pruned checkpoint's children
+ * are turned into snapshots first, so the rest of the tree stays replayable.
+ * With `file` set, every change is written to disk and `load()` restores it.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+import type { McplConnection } from './connection.js';
+import { method } from './methods.js';
+import type {
+  HostManagedState,
+  JsonPatchOperation,
+  StateCheckpoint,
+  StateRollbackResult,
+} from './methods.js';
+import { ERR_CHECKPOINT_NOT_FOUND } from './types.js';
+import { RpcError } from './errors.js';
+import { applyPatch } from './patch.js';
+import { writeFileAtomic } from './files.js';
+import { typedEmitter } from './emitter.js';
+
+// ── Public Types ──
+
+export interface CheckpointStoreOptions {
+  /** State before the first checkpoint of each feature set. Defaults to `{}`. */
+  initialState?: unknown;
+  /** Store a full snapshot after this many consecutive patches. Defaults to 20. */
+  snapshotInterval?: number;
+  /** Keep at most this many checkpoints per feature set. */
+  maxCheckpoints?: number;
+  /** Drop checkpoints older than this (ms). */
+  maxAge?: number;
+  /** JSON file to persist the store to. */
+  file?: string;
+  /**
+   * Called on rollback with the state to restore. Throwing refuses the
+   * rollback (`success: false`) and leaves the head where it was.
+   */
+  restore?: (featureSet: string, state: unknown, checkpoint: StateCheckpoint) => void | Promise<void>;
+  /** Clock, for tests. */
+  now?: () => number;
+}
+
+export interface RecordCheckpointOptions {
+  /** Checkpoint id. Generated if omitted. */
+  id?: string;
+  /** Parent checkpoint. Defaults to the feature set's current head. */
+  parent?: string;
+  label?: string;
+  /** Changes since the parent. */
+  patch?: JsonPatchOperation[];
+  /** Full state at this checkpoint (instead of, or in addition to, `patch`). */
+  state?: unknown;
+}
+
+export interface CheckpointStoreEvents {
+  checkpoint: [checkpoint: StateCheckpoint];
+  rollback: [checkpoint: StateCheckpoint, state: unknown];
+  prune: [checkpoint: StateCheckpoint];
+}
+
+interface CheckpointNode {
+  checkpoint: StateCheckpoint;
+  patch?: JsonPatchOperation[];
+  snapshot?: { state: unknown };
+}
+
+interface History {
+  head?: string;
+  /** In recording order, oldest first. */
+  nodes: Map<string, CheckpointNode>;
+}
+
+interface StoreFile {
+  version: 1;
+  featureSets: Record<string, {
+    head?: string;
+    checkpoints: Array<StateCheckpoint & { patch?: JsonPatchOperation[]; snapshot?: { state: unknown } }>;
+  }>;
+}
+
+// ── Store ──
+
+export class CheckpointStore extends typedEmitter<CheckpointStoreEvents>() {
+  private options: CheckpointStoreOptions;
+  private histories = new Map<string, History>();
+  private now: () => number;
+
+  constructor(options: CheckpointStoreOptions = {}) {
+    super();
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Create a store and load its history from `file`, if any. */
+  static async load(options: CheckpointStoreOptions = {}): Promise<CheckpointStore> {
+    const store = new CheckpointStore(options);
+    await store.loadFile();
+    return store;
+  }
+
+  /** Answer incoming `state/rollback` requests on a connection. Returns a remover. */
+  attach(connection: McplConnection): () => void {
+    connection.handle(method.STATE_ROLLBACK, (params) => this.rollback(params.featureSet, params.checkpoint));
+    return () => connection.removeHandler(method.STATE_ROLLBACK);
+  }
+
+  // ── Queries ──
+
+  get(featureSet: string, id: string): StateCheckpoint | undefined {
+    return this.histories.get(featureSet)?.nodes.get(id)?.checkpoint;
+  }
+
+  /** All checkpoints of a feature set, oldest first. */
+  list(featureSet: string): StateCheckpoint[] {
+    return [...(this.histories.get(featureSet)?.nodes.values() ?? [])].map((n) => n.checkpoint);
+  }
+
+  children(featureSet: string, id: string): StateCheckpoint[] {
+    return this.list(featureSet).filter((c) => c.parent === id);
+  }
+
+  /** The checkpoint new ones branch from (the latest, or the last rollback target). */
+  head(featureSet: string): StateCheckpoint | undefined {
+    const history = this.histories.get(featureSet);
+    return history?.head ? history.nodes.get(history.head)?.checkpoint : undefined;
+  }
+
+  /** Rebuild the state at a checkpoint. Throws `RpcError` (`ERR_CHECKPOINT_NOT_FOUND`) if unknown. */
+  stateAt(featureSet: string, id: string): unknown {
+    const history = this.histories.get(featureSet);
+    const chain: CheckpointNode[] = [];
+    let node = history?.nodes.get(id);
+    if (!node) throw notFound(featureSet, id);
+
+    while (node && !node.snapshot) {
+      chain.push(node);
+      node = node.checkpoint.parent ? history!.nodes.get(node.checkpoint.parent) : undefined;
+    }
+
+    // Copy so callers can't mutate stored snapshots
+    let state = structuredClone(node ? node.snapshot!.state : this.options.initialState ?? {});
+    for (let i = chain.length - 1; i >= 0; i--) {
+      state = applyPatch(state, chain[i].patch ?? []);
+    }
+    return state;
+  }
+
+  // ── Changes ──
+
+  /**
+   * Record a checkpoint. The patch is checked against the parent's state, so
+   * a patch that doesn't apply throws `JsonPatchError` and records nothing.
+   */
+  async record(featureSet: string, options: RecordCheckpointOptions = {}): Promise<StateCheckpoint> {
+    const history = this.history(featureSet);
+    const id = options.id ?? `cp_${randomUUID()}`;
+    if (history.nodes.has(id)) throw new Error(`Checkpoint already exists: ${id}`);
+
+    const parent = options.parent ?? history.head;
+    if (parent !== undefined && !history.nodes.has(parent)) throw notFound(featureSet, parent);
+
+    const checkpoint: StateCheckpoint = {
+      id,
+      featureSet,
+      timestamp: new Date(this.now()).toISOString(),
+    };
+    if (parent !== undefined) checkpoint.parent = parent;
+    if (options.label !== undefined) checkpoint.label = options.label;
+
+    const node: CheckpointNode = { checkpoint };
+    if (options.patch) node.patch = options.patch;
+
+    if (options.state !== undefined) {
+      node.snapshot = { state: options.state };
+    } else {
+      const base = parent !== undefined ? this.stateAt(featureSet, parent) : this.options.initialState ?? {};
+      const state = applyPatch(base, options.patch ?? []);
+      if (this.patchDepth(history, parent) + 1 >= (this.options.snapshotInterval ?? 20)) {
+        node.snapshot = { state };
+      }
+    }
+
+    history.nodes.set(id, node);
+    history.head = id;
+    this.emit('checkpoint', checkpoint);
+
+    this.pruneHistory(history);
+    await this.save();
+    return checkpoint;
+  }
+
+  /** Record the `HostManagedState` carried in a tool result as a child of the current head. */
+  recordHostState(featureSet: string, hostState: HostManagedState, label?: string): Promise<StateCheckpoint> {
+    return this.record(featureSet, { id: hostState.checkpoint, patch: hostState.patch, label });
+  }
+
+  /**
+   * Roll a feature set back to a checkpoint. Throws `RpcError`
+   * (`ERR_CHECKPOINT_NOT_FOUND`) if the checkpoint is unknown.
+   */
+  async rollback(featureSet: string, id: string): Promise<StateRollbackResult> {
+    const checkpoint = this.get(featureSet, id);
+    if (!checkpoint) throw notFound(featureSet, id);
+
+    const state = this.stateAt(featureSet, id);
+    try {
+      await this.options.restore?.(featureSet, state, checkpoint);
+    } catch (err) {
+      return { checkpoint: id, success: false, reason: (err as Error).message };
+    }
+
+    this.history(featureSet).head = id;
+    this.emit('rollback', checkpoint, state);
+    await this.save();
+    return { checkpoint: id, success: true };
+  }
+
+  /** Apply the age and count limits now (they are also applied on every `record()`). */
+  async prune(): Promise<void> {
+    for (const history of this.histories.values()) this.pruneHistory(history);
+    await this.save();
+  }
+
+  /** Write the store to `file`, replacing it atomically. No-op without `file`. */
+  async save(): Promise<void> {
+    const path = this.options.file;
+    if (!path) return;
+
+    const file: StoreFile = { version: 1, featureSets: {} };
+    for (const [featureSet, history] of this.histories) {
+      file.featureSets[featureSet] = {
+        head: history.head,
+        checkpoints: [...history.nodes.values()].map((n) => ({
+          ...n.checkpoint,
+          ...(n.patch && { patch: n.patch }),
+          ...(n.snapshot && { snapshot: n.snapshot }),
+        })),
+      };
+    }
+
+    await writeFileAtomic(path, JSON.stringify(file) + '\n');
+  }
+
+  // ── Internal ──
+
+  private history(featureSet: string): History {
+    let history = this.histories.get(featureSet);
+    if (!history) {
+      history = { nodes: new Map() };
+      this.histories.set(featureSet, history);
+    }
+    return history;
+  }
+
+  /** Number of patch-only checkpoints from `id` up to the nearest snapshot or root. */
+  private patchDepth(history: History, id: string | undefined): number {
+    let depth = 0;
+    let node = id !== undefined ? history.nodes.get(id) : undefined;
+    while (node && !node.snapshot) {
+      depth++;
+      node = node.checkpoint.parent ? history.nodes.get(node.checkpoint.parent) : undefined;
+    }
+    return depth;
+  }
+
+  private pruneHistory(history: History): void {
+    const { maxAge, maxCheckpoints } = this.options;
+    const cutoff = maxAge !== undefined ? this.now() - maxAge : -Infinity;
+
+    for (const node of [...history.nodes.values()]) {
+      const tooMany = maxCheckpoints !== undefined && history.nodes.size > maxCheckpoints;
+      const tooOld = Date.parse(node.checkpoint.timestamp) < cutoff;
+      if (!tooMany && !tooOld) continue;
+      if (node.checkpoint.id === history.head) continue;
+      this.removeNode(history, node);
+    }
+  }
+
+  private removeNode(history: History, node: CheckpointNode): void {
+    const { id, featureSet, parent } = node.checkpoint;
+    for (const child of history.nodes.values()) {
+      if (child.checkpoint.parent !== id) continue;
+      if (!child.snapshot) child.snapshot = { state: this.stateAt(featureSet, child.checkpoint.id) };
+      if (parent !== undefined) child.checkpoint.parent = parent;
+      else delete child.checkpoint.parent;
+    }
+    history.nodes.delete(id);
+    this.emit('prune', node.checkpoint);
+  }
+
+  private async loadFile(): Promise<void> {
+    const path = this.options.file;
+    if (!path) return;
+
+    let text: string;
+    try {
+      text = await readFile(path, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw err;
+    }
+
+    const file = JSON.parse(text) as StoreFile;
+    for (const [featureSet, stored] of Object.entries(file.featureSets ?? {})) {
+      const history = this.history(featureSet);
+      history.head = stored.head;
+      for (const { patch, snapshot, ...checkpoint } of stored.checkpoints) {
+        const node: CheckpointNode = { checkpoint };
+        if (patch) node.patch = patch;
+        if (snapshot) node.snapshot = snapshot;
+        history.nodes.set(checkpoint.id, node);
+      }
+    }
+  }
+}
+
+// ── Helpers ──
+
+function notFound(featureSet: string, id: string): RpcError {
+  return new RpcError(ERR_CHECKPOINT_NOT_FOUND, `Checkpoint not found: ${id}`, { featureSet, checkpoint: id });
+}
@@ -2,19 +2,30 @@
  * Bidirectional async JSON-RPC 2.0 connection for MCPL.
  * Port of mcpl-core/src/connection.rs
  *
- * Transport-agnostic: works over TCP, stdio, or any Node.js Readable/Writable pair.
- * Messages are framed as newline-delimited JSON (one JSON object per line).
+ * Transport-agnostic: works over TCP, stdio, a spawned child process, or any
+ * Node.js Readable/Writable pair.
+ * Messages are framed as newline-delimited JSON (one JSON object per line) by
+ * default; pass a `FramingCodec` (e.g. `contentLengthCodec`) to use another framing.
  *
- * Dual API:
+ * Incoming API:
+ *   - Handler registry: `handle(method, ...)` and `onNotification(method, ...)`
+ *     dispatch by method name and answer requests automatically
  *   - Pull-based: `nextMessage()` returns the next incoming request/notification
  *   - Event-based: `.on('request', ...)` and `.on('notification', ...)`
  *
+ * Messages claimed by a registered handler are not surfaced through the
+ * pull-based or event-based APIs.
+ *
  * Responses to pending `sendRequest()` calls are routed internally and never
  * surfaced through either API.
+ *
+ * JSON-RPC batches are supported in both directions: `sendBatch()` sends one,
+ * and incoming batches are dispatched element by element with their
+ * responses collected into a single array reply.
  */
 
-import { EventEmitter } from 'node:events';
-import type { EventEmitter as EventEmitterType } from 'node:events';
+import { spawn as spawnProcess } from 'node:child_process';
+import type { ChildProcess } from 'node:child_process';
 import * as net from 'node:net';
 import * as readline from 'node:readline';
 import type { Readable, Writable } from 'node:stream';
@@ -25,8 +36,40 @@ import type {
   JsonRpcResponse,
   JsonRpcNotification,
 } from './types.js';
-import { makeRequest, makeResponse, makeErrorResponse, makeNotification } from './types.js';
-import { ConnectionClosedError, RpcError } from './errors.js';
+import {
+  makeRequest,
+  makeResponse,
+  makeErrorResponse,
+  makeNotification,
+  ERR_PARSE_ERROR,
+  ERR_INVALID_REQUEST,
+  ERR_METHOD_NOT_FOUND,
+  ERR_INTERNAL_ERROR,
+  ERR_QUEUE_OVERFLOW,
+} from './types.js';
+import { method as mcplMethod } from './methods.js';
+import type {
+  CancelledParams,
+  ProgressParams,
+  ProgressToken,
+  RequestMeta,
+  McplParams,
+  McplResult,
+  RequestMethodName,
+  NotificationMethodName,
+} from './methods.js';
+import {
+  ConnectionClosedError,
+  ConnectionTimeoutError,
+  FramingError,
+  FrameTooLargeError,
+  ProcessExitError,
+  RequestCancelledError,
+  RpcError,
+} from './errors.js';
+import type { FrameDecoder, FramingCodec } from './framing.js';
+import { ndjsonCodec } from './framing.js';
+import { typedEmitter } from './emitter.js';
 
 // ── Public Types ──
 
@@ -39,15 +82,124 @@ export interface McplConnectionEvents {
   notification: [notification: JsonRpcNotification];
   close: [];
   error: [error: Error];
+  /** An incoming message was discarded because the incoming queue was full. */
+  overflow: [message: IncomingMessage];
+  /** A line written to stderr by a spawned process. */
+  log: [line: string];
+  /** A spawned process has exited. */
+  exit: [code: number | null, signal: NodeJS.Signals | null];
+}
+
+/**
+ * What to do when the incoming queue reaches `maxIncomingQueue`:
+ *   - `'pause'`: stop reading from the transport until `nextMessage()` makes room
+ *   - `'dropOldest'`: discard the oldest queued message
+ *   - `'reject'`: discard the new message
+ *
+ * Discarded requests are answered with `ERR_QUEUE_OVERFLOW`.
+ */
+export type QueueOverflowPolicy = 'pause' | 'dropOldest' | 'reject';
+
+/** Options accepted by the `McplConnection` factories. */
+export interface McplConnectionOptions {
+  /** Message framing on the wire. Defaults to `ndjsonCodec`. */
+  codec?: FramingCodec;
+  /**
+   * Bytes of unflushed outgoing data above which the connection reports
+   * `needsDrain` and `drain()` waits. Defaults to the writable's high-water mark.
+   */
+  writeHighWaterMark?: number;
+  /** Maximum messages held for `nextMessage()`. Defaults to unbounded. */
+  maxIncomingQueue?: number;
+  /** Defaults to `'pause'`. */
+  queueOverflow?: QueueOverflowPolicy;
+  /**
+   * Maximum size in bytes of a single message, enforced in both directions.
+   * Oversized incoming frames are discarded and reported as a
+   * `FrameTooLargeError` `'error'` event; oversized outgoing messages throw
+   * before anything is written. Defaults to unbounded.
+   */
+  maxFrameSize?: number;
+}
+
+/** Options for `McplConnection.spawn()`. */
+export interface SpawnConnectionOptions extends McplConnectionOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  /** Time (ms) between SIGTERM and SIGKILL when `close()` stops the process. Defaults to 5000. */
+  killTimeout?: number;
+}
+
+/** Context passed to request handlers registered with `handle()`. */
+export interface RequestContext {
+  id: JsonRpcId;
+  method: string;
+  connection: McplConnection;
+  /** Aborted when the peer cancels the request or the connection closes. */
+  signal: AbortSignal;
+  /** Progress token supplied by the caller in `params._meta`, if any. */
+  progressToken?: ProgressToken;
+  /**
+   * Send `notifications/progress` to the caller.
+   * No-op when the caller didn't ask for progress.
+   */
+  reportProgress(progress: number, total?: number, message?: string): void;
 }
 
-// Typed EventEmitter — provides compile-time event name/argument checking
-type TypedEmitter = {
-  on<K extends keyof McplConnectionEvents>(event: K, listener: (...args: McplConnectionEvents[K]) => void): TypedEmitter;
-  emit<K extends keyof McplConnectionEvents>(event: K, ...args: McplConnectionEvents[K]): boolean;
-  once<K extends keyof McplConnectionEvents>(event: K, listener: (...args: McplConnectionEvents[K]) => void): TypedEmitter;
-  removeListener<K extends keyof McplConnectionEvents>(event: K, listener: (...args: McplConnectionEvents[K]) => void): TypedEmitter;
-} & EventEmitterType;
+/** Per-call options for `sendRequest()`. */
+export interface RequestOptions {
+  /** Override the default request timeout (ms). 0 = no timeout. */
+  timeout?: number;
+  /** Aborting the signal rejects the call and sends `notifications/cancelled` to the peer. */
+  signal?: AbortSignal;
+  /**
+   * Called for each `notifications/progress` the peer sends for this request.
+   * Setting it adds a `progressToken` to `params._meta`.
+   */
+  onProgress?: (progress: ProgressParams) => void;
+  /** Restart the timeout whenever a progress notification arrives. */
+  resetTimeoutOnProgress?: boolean;
+  /**
+   * Called with the request's JSON-RPC id just before it is written (once per
+   * request in a batch), for matching notifications that refer to it (e.g.
+   * `inference/chunk`).
+   */
+  onRequestId?: (id: number) => void;
+}
+
+/** Context passed to notification handlers registered with `onNotification()`. */
+export interface NotificationContext {
+  method: string;
+  connection: McplConnection;
+}
+
+export type RequestHandler<P = unknown, R = unknown> = (params: P, ctx: RequestContext) => R | Promise<R>;
+export type NotificationHandler<P = unknown> = (params: P, ctx: NotificationContext) => void | Promise<void>;
+
+/**
+ * Inspects an incoming request or notification before it is dispatched.
+ * Return an `RpcError` to refuse it: refused requests are answered with that
+ * error, refused notifications are dropped.
+ */
+export type MessageGuard = (msg: IncomingMessage) => RpcError | undefined;
+
+/**
+ * What to do with incoming requests that have no registered handler:
+ *   - `'queue'`: surface them through `nextMessage()` / `'request'` events
+ *   - `'reject'`: answer with -32601 (method not found)
+ * Unset, they are queued while the pull or event API is in use (no handlers
+ * registered yet, a `nextMessage()` waiter, or a `'request'` listener) and
+ * rejected otherwise.
+ */
+export type UnhandledRequestPolicy = 'queue' | 'reject';
+
+/** One element of an outgoing batch passed to `sendBatch()`. */
+export interface BatchEntry {
+  method: string;
+  params?: unknown;
+  /** Send as a notification (no id, no response). */
+  notification?: boolean;
+}
 
 // ── Pending Request Tracking ──
 
@@ -55,13 +207,25 @@ interface PendingRequest {
   resolve: (value: unknown) => void;
   reject: (error: Error) => void;
   timer?: ReturnType<typeof setTimeout>;
+  onProgress?: (progress: ProgressParams) => void;
+}
+
+/** Incoming batch whose responses are being collected. */
+interface IncomingBatch {
+  /** Ids of requests in the batch that haven't been answered yet. */
+  outstanding: Set<string>;
+  responses: JsonRpcResponse[];
+  /** Set once every element has been handed to routing. */
+  dispatched: boolean;
 }
 
 // ── Connection ──
 
-export class McplConnection extends (EventEmitter as new () => TypedEmitter) {
+export class McplConnection extends typedEmitter<McplConnectionEvents>() {
+  private reader: Readable;
   private writer: Writable;
-  private rl: readline.Interface;
+  private codec: FramingCodec;
+  private decoder: FrameDecoder;
   private nextId = 1;
   private pending = new Map<string, PendingRequest>();
   private incomingQueue: IncomingMessage[] = [];
@@ -70,27 +234,43 @@ export class McplConnection extends (EventEmitter as new () => TypedEmitter) {
     reject: (err: Error) => void;
   }> = [];
   private closed = false;
+  private requestHandlers = new Map<string, RequestHandler>();
+  private notificationHandlers = new Map<string, NotificationHandler>();
+  private guards: MessageGuard[] = [];
+  private inFlight = new Map<string, AbortController>();
+  private batchMembers = new Map<string, IncomingBatch>();
+  private writeHighWaterMark: number;
+  private bufferedBytes = 0;
+  private drainWaiters: Array<{ resolve: () => void; reject: (err: Error) => void }> = [];
+  private maxIncomingQueue: number;
+  private queueOverflow: QueueOverflowPolicy;
+  private readPaused = false;
+  private maxFrameSize: number;
+  private child: ChildProcess | undefined;
+  private killTimeout = 0;
+  private killTimer: ReturnType<typeof setTimeout> | undefined;
+  private killRequested = false;
 
-  private constructor(readable: Readable, writable: Writable) {
+  private constructor(readable: Readable, writable: Writable, options: McplConnectionOptions = {}) {
     super();
+    this.reader = readable;
     this.writer = writable;
+    this.codec = options.codec ?? ndjsonCodec;
+    this.writeHighWaterMark = options.writeHighWaterMark ?? writable.writableHighWaterMark;
+    this.maxIncomingQueue = options.maxIncomingQueue ?? Infinity;
+    this.queueOverflow = options.queueOverflow ?? 'pause';
 
-    this.rl = readline.createInterface({ input: readable, crlfDelay: Infinity });
+    this.maxFrameSize = options.maxFrameSize ?? Infinity;
 
-    this.rl.on('line', (line: string) => {
-      const trimmed = line.trim();
-      if (!trimmed) return;
-      try {
-        const msg: Record<string, unknown> = JSON.parse(trimmed);
-        this.handleParsedMessage(msg);
-      } catch (e) {
-        this.emit('error', new Error(`Malformed JSON-RPC message: ${(e as Error).message}`));
-      }
-    });
+    this.decoder = this.codec.createDecoder(
+      (frame) => this.handleFrame(frame),
+      (err) => this.handleFramingError(err),
+      { maxFrameSize: this.maxFrameSize },
+    );
 
-    this.rl.on('close', () => {
-      this.handleClose();
-    });
+    readable.on('data', this.onData);
+    readable.on('end', this.onEnd);
+    readable.on('close', this.onEnd);
 
     readable.on('error', (err: Error) => {
       this.emit('error', err);
@@ -104,21 +284,39 @@ export class McplConnection extends (EventEmitter as new () => TypedEmitter) {
   // ── Factories ──
 
   /** Create from a TCP socket. */
-  static fromTcp(socket: net.Socket): McplConnection {
-    socket.setEncoding('utf-8');
-    return new McplConnection(socket, socket);
+  static fromTcp(socket: net.Socket, options?: McplConnectionOptions): McplConnection {
+    return new McplConnection(socket, socket, options);
   }
 
   /** Create from arbitrary readable/writable streams (e.g., stdin/stdout, child process). */
-  static fromStreams(readable: Readable, writable: Writable): McplConnection {
-    return new McplConnection(readable, writable);
+  static fromStreams(readable: Readable, writable: Writable, options?: McplConnectionOptions): McplConnection {
+    return new McplConnection(readable, writable, options);
+  }
+
+  /**
+   * Spawn an MCPL server as a child process and connect to its stdin/stdout.
+   *
+   * stderr lines are emitted as `'log'` events. If the process exits with a
+   * non-zero code or is killed by a signal, pending requests reject with
+   * `ProcessExitError`. `close()` sends SIGTERM, then SIGKILL after `killTimeout`.
+   */
+  static spawn(command: string, args: string[] = [], options: SpawnConnectionOptions = {}): McplConnection {
+    const child = spawnProcess(command, args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    const conn = new McplConnection(child.stdout, child.stdin, options);
+    conn.attachChild(child, options.killTimeout ?? 5_000);
+    return conn;
   }
 
   /** Accept a single TCP connection from a server and return an McplConnection. */
-  static acceptTcp(server: net.Server): Promise<McplConnection> {
+  static acceptTcp(server: net.Server, options?: McplConnectionOptions): Promise<McplConnection> {
     return new Promise((resolve, reject) => {
       server.once('connection', (socket: net.Socket) => {
-        resolve(McplConnection.fromTcp(socket));
+        resolve(McplConnection.fromTcp(socket, options));
       });
       server.once('error', reject);
     });
@@ -130,71 +328,242 @@ export class McplConnection extends (EventEmitter as new () => TypedEmitter) {
     return this.closed;
   }
 
+  /** True while unflushed outgoing data is at or above the write high-water mark. */
+  get needsDrain(): boolean {
+    return this.bufferedBytes >= this.writeHighWaterMark;
+  }
+
+  /** Number of incoming messages waiting for `nextMessage()`. */
+  get queuedMessages(): number {
+    return this.incomingQueue.length;
+  }
+
   /** Default timeout for sendRequest (ms). 0 = no timeout. */
   requestTimeout = 30_000;
 
+  /**
+   * Policy for incoming requests without a registered handler. Unset, a
+   * connection driven only by `handle()` answers them with -32601, while
+   * `nextMessage()` and `'request'` consumers still receive them.
+   */
+  unhandledRequests?: UnhandledRequestPolicy;
+
+  /**
+   * Register a handler for incoming requests with the given method.
+   * The returned value (or resolved promise) is sent as the result. A thrown
+   * `RpcError` becomes an error response with its code; any other exception
+   * becomes -32603 (internal error). Replaces any existing handler.
+   *
+   * Requests for the method already waiting in the `nextMessage()` queue are
+   * handed to the new handler.
+   */
+  handle<M extends string>(
+    method: RequestMethodName<M>,
+    handler: RequestHandler<McplParams<M>, McplResult<M>>,
+  ): void {
+    this.requestHandlers.set(method, handler as RequestHandler);
+    for (const msg of this.claimQueued('request', method)) {
+      if (msg.type === 'request') void this.dispatchRequest(msg.request, handler as RequestHandler);
+    }
+  }
+
+  /**
+   * Register a handler for incoming notifications with the given method.
+   * Queued notifications for the method are handed to the new handler.
+   */
+  onNotification<M extends string>(
+    method: NotificationMethodName<M>,
+    handler: NotificationHandler<McplParams<M>>,
+  ): void {
+    this.notificationHandlers.set(method, handler as NotificationHandler);
+    for (const msg of this.claimQueued('notification', method)) {
+      if (msg.type === 'notification') void this.dispatchNotification(msg.notification, handler as NotificationHandler);
+    }
+  }
+
+  /**
+   * Add a guard that can refuse incoming requests and notifications before
+   * they reach handlers, events or `nextMessage()`. Returns a function that
+   * removes the guard.
+   */
+  addGuard(guard: MessageGuard): () => void {
+    this.guards.push(guard);
+    return () => {
+      this.guards = this.guards.filter((g) => g !== guard);
+    };
+  }
+
+  /** Remove the request and notification handlers for a method. */
+  removeHandler(method: string): void {
+    this.requestHandlers.delete(method);
+    this.notificationHandlers.delete(method);
+  }
+
   /**
    * Send a JSON-RPC request and wait for the response.
    * Responses are matched by ID; incoming requests/notifications that arrive
    * while waiting are queued for `nextMessage()` / event listeners.
    *
-   * @param timeout Override the default request timeout (ms). 0 = no timeout.
+   * Params and result types are inferred from `McplMethodMap` for known methods.
+   *
+   * On timeout or abort the call rejects (`ConnectionTimeoutError` /
+   * `RequestCancelledError`) and the peer is sent `notifications/cancelled`.
+   *
+   * @param options Request timeout (ms, 0 = no timeout) or full `RequestOptions`.
    */
-  async sendRequest(method: string, params?: unknown, timeout?: number): Promise<unknown> {
+  async sendRequest<M extends string>(
+    method: RequestMethodName<M>,
+    params?: McplParams<M>,
+    options?: number | RequestOptions,
+  ): Promise<McplResult<M>> {
     if (this.closed) throw new ConnectionClosedError();
 
+    const opts: RequestOptions = typeof options === 'number' ? { timeout: options } : options ?? {};
+    const signal = opts.signal;
+    if (signal?.aborted) throw new RequestCancelledError(signal.reason);
+
     const id = this.nextId++;
-    const request = makeRequest(id, method, params);
+    const request = makeRequest(id, method, opts.onProgress ? withProgressToken(params, id) : params);
+    const json = this.serialize(request, method);
+    const promise = this.trackPending<McplResult<M>>(id, method, opts);
+    opts.onRequestId?.(id);
+    this.writeMessage(json);
+    return promise;
+  }
+
+  /**
+   * Send several requests and notifications as one JSON-RPC batch.
+   * Returns one promise per entry, in order: requests resolve with their own
+   * result or reject with their own error; notifications resolve immediately.
+   *
+   * @param options Timeout (ms) or `RequestOptions` applied to every request in the batch.
+   */
+  sendBatch(entries: BatchEntry[], options?: number | RequestOptions): Promise<unknown>[] {
+    if (this.closed) return entries.map(() => Promise.reject(new ConnectionClosedError()));
+
+    const opts: RequestOptions = typeof options === 'number' ? { timeout: options } : options ?? {};
+    if (opts.signal?.aborted) {
+      const err = new RequestCancelledError(opts.signal.reason);
+      return entries.map(() => Promise.reject(err));
+    }
+
+    if (entries.length === 0) return [];
+
+    const messages = entries.map((entry) => {
+      if (entry.notification) return makeNotification(entry.method, entry.params);
+      const id = this.nextId++;
+      return makeRequest(id, entry.method, opts.onProgress ? withProgressToken(entry.params, id) : entry.params);
+    });
+
+    let json: string;
+    try {
+      json = this.serialize(messages, entries.map((e) => e.method).join(', '));
+    } catch (e) {
+      return entries.map(() => Promise.reject(e));
+    }
+
+    const promises = messages.map((msg) =>
+      'id' in msg ? this.trackPending<unknown>(msg.id as number, msg.method, opts) : Promise.resolve(undefined),
+    );
+    for (const msg of messages) {
+      if ('id' in msg) opts.onRequestId?.(msg.id as number);
+    }
+    this.writeMessage(json);
+    return promises;
+  }
 
-    const timeoutMs = timeout ?? this.requestTimeout;
+  /** Register a pending request: timeout, abort and progress wiring. Does not write anything. */
+  private trackPending<R>(id: number, method: string, opts: RequestOptions): Promise<R> {
+    const signal = opts.signal;
+    const timeoutMs = opts.timeout ?? this.requestTimeout;
 
-    return new Promise<unknown>((resolve, reject) => {
+    return new Promise<R>((resolve, reject) => {
       let timer: ReturnType<typeof setTimeout> | undefined;
 
+      const armTimer = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+          if (!this.pending.has(String(id))) return;
+          cleanup();
+          this.sendCancelled(id, `Request timed out after ${timeoutMs}ms`);
+          reject(new ConnectionTimeoutError(`Request timed out after ${timeoutMs}ms: ${method}`));
+        }, timeoutMs);
+        const pending = this.pending.get(String(id));
+        if (pending) pending.timer = timer;
+      };
+
+      const onAbort = () => {
+        if (!this.pending.has(String(id))) return;
+        cleanup();
+        this.sendCancelled(id, 'Request aborted by caller');
+        reject(new RequestCancelledError(signal?.reason));
+      };
+
       const cleanup = () => {
         if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
         this.pending.delete(String(id));
       };
 
-      if (timeoutMs > 0) {
-        timer = setTimeout(() => {
-          const pending = this.pending.get(String(id));
-          if (pending) {
-            this.pending.delete(String(id));
-            reject(new RpcError(-32000, `Request timed out after ${timeoutMs}ms: ${method}`));
-          }
-        }, timeoutMs);
-      }
+      const onProgress = opts.onProgress && ((progress: ProgressParams) => {
+        if (opts.resetTimeoutOnProgress && timeoutMs > 0) armTimer();
+        opts.onProgress!(progress);
+      });
+
+      signal?.addEventListener('abort', onAbort, { once: true });
 
       this.pending.set(String(id), {
-        resolve: (value) => { cleanup(); resolve(value); },
+        resolve: (value) => { cleanup(); resolve(value as R); },
         reject: (err) => { cleanup(); reject(err); },
-        timer,
+        onProgress,
       });
 
-      this.writeLine(JSON.stringify(request));
+      if (timeoutMs > 0) armTimer();
     });
   }
 
-  /** Send a JSON-RPC notification (fire-and-forget, no response expected). */
-  sendNotification(method: string, params?: unknown): void {
+  /**
+   * Send a JSON-RPC notification (fire-and-forget, no response expected).
+   * Throws `FrameTooLargeError` if the message exceeds `maxFrameSize`.
+   */
+  sendNotification<M extends string>(method: NotificationMethodName<M>, params?: McplParams<M>): void {
     if (this.closed) return;
     const notification = makeNotification(method, params);
-    this.writeLine(JSON.stringify(notification));
+    this.writeMessage(this.serialize(notification, method));
+  }
+
+  /**
+   * Awaitable `sendNotification()`: resolves once outgoing data has drained
+   * below the write high-water mark, so producers can't outrun the peer.
+   */
+  async notify<M extends string>(method: NotificationMethodName<M>, params?: McplParams<M>): Promise<void> {
+    if (this.closed) throw new ConnectionClosedError();
+    this.sendNotification(method, params);
+    await this.drain();
+  }
+
+  /**
+   * Wait until unflushed outgoing data is below the write high-water mark.
+   * Resolves immediately if it already is; rejects if the connection closes.
+   */
+  drain(): Promise<void> {
+    if (!this.needsDrain) return Promise.resolve();
+    if (this.closed) return Promise.reject(new ConnectionClosedError());
+    return new Promise<void>((resolve, reject) => {
+      this.drainWaiters.push({ resolve, reject });
+    });
   }
 
   /** Send a JSON-RPC success response (answering an incoming request). */
   sendResponse(id: JsonRpcId, result: unknown): void {
     if (this.closed) return;
-    const response = makeResponse(id, result);
-    this.writeLine(JSON.stringify(response));
+    this.writeResponse(makeResponse(id, result));
   }
 
   /** Send a JSON-RPC error response. */
-  sendError(id: JsonRpcId, code: number, message: string): void {
+  sendError(id: JsonRpcId, code: number, message: string, data?: unknown): void {
     if (this.closed) return;
-    const response = makeErrorResponse(id, { code, message });
-    this.writeLine(JSON.stringify(response));
+    this.writeResponse(makeErrorResponse(id, { code, message, ...(data !== undefined && { data }) }));
   }
 
   /**
@@ -205,7 +574,10 @@ export class McplConnection extends (EventEmitter as new () => TypedEmitter) {
   async nextMessage(): Promise<IncomingMessage> {
     // Drain queued messages first
     const queued = this.incomingQueue.shift();
-    if (queued) return queued;
+    if (queued) {
+      this.maybeResumeReading();
+      return queued;
+    }
 
     if (this.closed) throw new ConnectionClosedError();
 
@@ -215,20 +587,222 @@ export class McplConnection extends (EventEmitter as new () => TypedEmitter) {
     });
   }
 
-  /** Close the connection. */
+  /** The spawned process, for connections created with `spawn()`. */
+  get process(): ChildProcess | undefined {
+    return this.child;
+  }
+
+  /** Close the connection. A spawned process is terminated. */
   close(): void {
     if (this.closed) return;
     this.handleClose();
-    this.rl.close();
+    this.detachReader();
     if ('destroy' in this.writer && typeof this.writer.destroy === 'function') {
       this.writer.destroy();
     }
+    this.killChild();
   }
 
   // ── Internal ──
 
-  private writeLine(json: string): void {
-    this.writer.write(json + '\n');
+  private sendCancelled(requestId: JsonRpcId, reason: string): void {
+    const params: CancelledParams = { requestId, reason };
+    this.sendNotification(mcplMethod.CANCELLED, params);
+  }
+
+  private onData = (chunk: Buffer | string): void => {
+    this.decoder.write(chunk);
+  };
+
+  private onEnd = (): void => {
+    if (this.closed) return;
+    this.decoder.end();
+    this.detachReader();
+    // A spawned process closes once it has exited, so the exit status is known
+    if (this.child && this.child.exitCode === null && this.child.signalCode === null) return;
+    this.handleClose();
+  };
+
+  private attachChild(child: ChildProcess, killTimeout: number): void {
+    this.child = child;
+    this.killTimeout = killTimeout;
+
+    readline.createInterface({ input: child.stderr!, crlfDelay: Infinity })
+      .on('line', (line) => this.emit('log', line));
+
+    child.on('error', (err) => {
+      // Spawn failure (e.g. ENOENT); the process never ran
+      this.handleClose(err);
+      this.emit('error', err);
+    });
+
+    child.on('close', (code, signal) => {
+      if (this.killTimer) clearTimeout(this.killTimer);
+      this.emit('exit', code, signal);
+      const crashed = code !== 0 && !this.killRequested;
+      this.handleClose(crashed ? new ProcessExitError(code, signal) : undefined);
+    });
+  }
+
+  private killChild(): void {
+    const child = this.child;
+    if (!child || this.killRequested || child.exitCode !== null || child.signalCode !== null) return;
+    this.killRequested = true;
+    child.kill('SIGTERM');
+    this.killTimer = setTimeout(() => {
+      if (child.exitCode === null && child.signalCode === null) child.kill('SIGKILL');
+    }, this.killTimeout);
+  }
+
+  private detachReader(): void {
+    this.reader.off('data', this.onData);
+    this.reader.off('end', this.onEnd);
+    this.reader.off('close', this.onEnd);
+    this.reader.pause();
+  }
+
+  private handleFramingError(err: FramingError): void {
+    if (err instanceof FrameTooLargeError && err.id !== undefined) {
+      if (err.kind === 'request') {
+        // An oversized request: tell the peer rather than leaving it waiting
+        this.sendError(err.id, ERR_INVALID_REQUEST, err.message);
+      } else if (err.kind === 'response') {
+        // An oversized response to one of our requests
+        this.pending.get(String(err.id))?.reject(err);
+      }
+    }
+    this.emit('error', err);
+  }
+
+  private handleFrame(frame: string): void {
+    let msg: unknown;
+    try {
+      msg = JSON.parse(frame);
+    } catch (e) {
+      const message = (e as Error).message;
+      if (!this.closed) {
+        this.writeMessage(this.serialize(makeErrorResponse(null, { code: ERR_PARSE_ERROR, message: 'Parse error' })));
+      }
+      this.emit('error', new Error(`Malformed JSON-RPC message: ${message}`));
+      return;
+    }
+    if (Array.isArray(msg)) {
+      this.handleBatch(msg);
+      return;
+    }
+    if (!isPlainObject(msg)) return; // Not a JSON-RPC message object
+    this.handleParsedMessage(msg);
+  }
+
+  /** Serialize an outgoing message, enforcing `maxFrameSize`. */
+  private serialize(message: unknown, method?: string): string {
+    const json = JSON.stringify(message);
+    if (this.maxFrameSize !== Infinity) {
+      const size = Buffer.byteLength(json, 'utf-8');
+      if (size > this.maxFrameSize) {
+        throw new FrameTooLargeError(size, this.maxFrameSize, 'outgoing', { method });
+      }
+    }
+    return json;
+  }
+
+  private writeMessage(json: string): void {
+    const data = this.codec.encode(json);
+    const size = Buffer.byteLength(data, 'utf-8');
+    this.bufferedBytes += size;
+    this.writer.write(data, () => {
+      this.bufferedBytes -= size;
+      if (!this.needsDrain) this.releaseDrainWaiters();
+    });
+  }
+
+  private releaseDrainWaiters(): void {
+    const waiters = this.drainWaiters;
+    this.drainWaiters = [];
+    for (const waiter of waiters) waiter.resolve();
+  }
+
+  /** Write a response, or hold it back if it answers part of an incoming batch. */
+  private writeResponse(response: JsonRpcResponse): void {
+    const key = String(response.id);
+    const batch = response.id !== null ? this.batchMembers.get(key) : undefined;
+    if (batch && batch.outstanding.has(key)) {
+      // Size-check individually: an oversized answer becomes an error so the rest of the batch still goes out
+      let failure: Error | undefined;
+      try {
+        this.serialize(response);
+      } catch (e) {
+        failure = e as Error;
+      }
+      batch.outstanding.delete(key);
+      this.batchMembers.delete(key);
+      batch.responses.push(
+        failure ? makeErrorResponse(response.id, { code: ERR_INTERNAL_ERROR, message: failure.message }) : response,
+      );
+      this.flushBatch(batch);
+      if (failure) this.emit('error', failure);
+      return;
+    }
+    this.writeMessage(this.serialize(response));
+  }
+
+  /** Give up on answering a request (e.g. it was cancelled), releasing any batch waiting on it. */
+  private abandonResponse(id: JsonRpcId): void {
+    const key = String(id);
+    const batch = this.batchMembers.get(key);
+    if (!batch || !batch.outstanding.delete(key)) return;
+    this.batchMembers.delete(key);
+    this.flushBatch(batch);
+  }
+
+  /**
+   * Dispatch each element of an incoming batch. Responses to its requests are
+   * collected and written back as a single array once all have been answered.
+   */
+  private handleBatch(items: unknown[]): void {
+    if (items.length === 0) {
+      this.writeMessage(this.serialize(
+        makeErrorResponse(null, { code: ERR_INVALID_REQUEST, message: 'Invalid Request: empty batch' }),
+      ));
+      return;
+    }
+
+    const batch: IncomingBatch = { outstanding: new Set(), responses: [], dispatched: false };
+    const valid: Array<Record<string, unknown>> = [];
+
+    for (const item of items) {
+      if (!isValidMessage(item)) {
+        batch.responses.push(makeErrorResponse(null, { code: ERR_INVALID_REQUEST, message: 'Invalid Request' }));
+        continue;
+      }
+      valid.push(item);
+      // Register requests up front so synchronous answers are collected too
+      if (item.id != null && typeof item.method === 'string') {
+        const key = String(item.id);
+        batch.outstanding.add(key);
+        this.batchMembers.set(key, batch);
+      }
+    }
+
+    for (const item of valid) {
+      this.handleParsedMessage(item);
+    }
+
+    batch.dispatched = true;
+    this.flushBatch(batch);
+  }
+
+  private flushBatch(batch: IncomingBatch): void {
+    if (!batch.dispatched || batch.outstanding.size > 0) return;
+    // A batch of only notifications and responses gets no reply
+    if (batch.responses.length > 0 && !this.closed) {
+      try {
+        this.writeMessage(this.serialize(batch.responses));
+      } catch (e) {
+        this.emit('error', e as Error);
+      }
+    }
+    batch.responses = [];
   }
 
   private handleParsedMessage(msg: Record<string, unknown>): void {
@@ -264,13 +838,42 @@ export class McplConnection extends (EventEmitter as new () => TypedEmitter) {
 
     this.pending.delete(key);
     if (resp.error) {
-      pending.reject(new RpcError(resp.error.code, resp.error.message));
+      pending.reject(new RpcError(resp.error.code, resp.error.message, resp.error.data));
     } else {
       pending.resolve(resp.result);
     }
   }
 
   private routeIncoming(msg: IncomingMessage): void {
+    for (const guard of this.guards) {
+      const refusal = guard(msg);
+      if (!refusal) continue;
+      if (msg.type === 'request') {
+        this.sendError(msg.request.id, refusal.code, refusal.rpcMessage, refusal.data);
+      }
+      return;
+    }
+
+    if (msg.type === 'request') {
+      const handler = this.requestHandlers.get(msg.request.method);
+      if (handler) {
+        void this.dispatchRequest(msg.request, handler);
+        return;
+      }
+      if (this.unhandledRequestPolicy() === 'reject') {
+        this.sendError(msg.request.id, ERR_METHOD_NOT_FOUND, `Method not found: ${msg.request.method}`);
+        return;
+      }
+    } else {
+      if (msg.notification.method === mcplMethod.CANCELLED && this.handleCancelled(msg.notification)) return;
+      if (msg.notification.method === mcplMethod.PROGRESS && this.handleProgress(msg.notification)) return;
+      const handler = this.notificationHandlers.get(msg.notification.method);
+      if (handler) {
+        void this.dispatchNotification(msg.notification, handler);
+        return;
+      }
+    }
+
     // Emit events for EventEmitter consumers
     if (msg.type === 'request') {
       this.emit('request', msg.request);
@@ -283,16 +886,144 @@ export class McplConnection extends (EventEmitter as new () => TypedEmitter) {
     if (waiter) {
       waiter.resolve(msg);
     } else {
-      this.incomingQueue.push(msg);
+      this.enqueueIncoming(msg);
+    }
+  }
+
+  private unhandledRequestPolicy(): UnhandledRequestPolicy {
+    if (this.unhandledRequests) return this.unhandledRequests;
+    const pulling = this.requestHandlers.size === 0 || this.incomingWaiters.length > 0;
+    return pulling || this.listenerCount('request') > 0 ? 'queue' : 'reject';
+  }
+
+  /** Remove and return queued messages of the given type and method. */
+  private claimQueued(type: IncomingMessage['type'], method: string): IncomingMessage[] {
+    const claimed: IncomingMessage[] = [];
+    this.incomingQueue = this.incomingQueue.filter((msg) => {
+      const matches = msg.type === type
+        && (msg.type === 'request' ? msg.request.method : msg.notification.method) === method;
+      if (matches) claimed.push(msg);
+      return !matches;
+    });
+    if (claimed.length > 0) this.maybeResumeReading();
+    return claimed;
+  }
+
+  private enqueueIncoming(msg: IncomingMessage): void {
+    if (this.incomingQueue.length >= this.maxIncomingQueue) {
+      if (this.queueOverflow === 'reject') {
+        this.discardIncoming(msg);
+        return;
+      }
+      if (this.queueOverflow === 'dropOldest') {
+        this.discardIncoming(this.incomingQueue.shift()!);
+      }
+    }
+
+    this.incomingQueue.push(msg);
+
+    if (this.queueOverflow === 'pause' && this.incomingQueue.length >= this.maxIncomingQueue && !this.readPaused) {
+      this.readPaused = true;
+      this.reader.pause();
     }
   }
 
-  private handleClose(): void {
+  private maybeResumeReading(): void {
+    if (!this.readPaused || this.closed || this.incomingQueue.length >= this.maxIncomingQueue) return;
+    this.readPaused = false;
+    this.reader.resume();
+  }
+
+  private discardIncoming(msg: IncomingMessage): void {
+    if (msg.type === 'request') {
+      this.sendError(msg.request.id, ERR_QUEUE_OVERFLOW, 'Incoming queue full');
+    }
+    this.emit('overflow', msg);
+  }
+
+  /**
+   * Abort the handler for a cancelled in-flight request.
+   * Returns false if the id doesn't belong to a handler-dispatched request,
+   * in which case the notification is surfaced like any other.
+   */
+  private handleCancelled(notification: JsonRpcNotification): boolean {
+    const params = notification.params as Partial<CancelledParams> | undefined;
+    if (params?.requestId == null) return false;
+    const controller = this.inFlight.get(String(params.requestId));
+    if (!controller) return false;
+    this.inFlight.delete(String(params.requestId));
+    controller.abort(new RequestCancelledError(params.reason));
+    return true;
+  }
+
+  /**
+   * Route a progress notification to the matching pending request.
+   * Returns false if no pending request asked for progress with that token.
+   */
+  private handleProgress(notification: JsonRpcNotification): boolean {
+    const params = notification.params as ProgressParams | undefined;
+    if (params?.progressToken == null) return false;
+    const pending = this.pending.get(String(params.progressToken));
+    if (!pending?.onProgress) return false;
+    pending.onProgress(params);
+    return true;
+  }
+
+  private async dispatchRequest(request: JsonRpcRequest, handler: RequestHandler): Promise<void> {
+    const key = String(request.id);
+    const controller = new AbortController();
+    this.inFlight.set(key, controller);
+
+    const progressToken = readProgressToken(request.params);
+    const ctx: RequestContext = {
+      id: request.id,
+      method: request.method,
+      connection: this,
+      signal: controller.signal,
+      progressToken,
+      reportProgress: (progress, total, message) => {
+        if (progressToken === undefined || controller.signal.aborted) return;
+        const params: ProgressParams = {
+          progressToken,
+          progress,
+          ...(total !== undefined && { total }),
+          ...(message !== undefined && { message }),
+        };
+        this.sendNotification(mcplMethod.PROGRESS, params);
+      },
+    };
+    try {
+      const result = await handler(request.params, ctx);
+      // The peer has given up on a cancelled request; don't answer it.
+      if (controller.signal.aborted) return this.abandonResponse(request.id);
+      this.sendResponse(request.id, result ?? null);
+    } catch (e) {
+      if (controller.signal.aborted) return this.abandonResponse(request.id);
+      if (e instanceof RpcError) {
+        this.sendError(request.id, e.code, e.rpcMessage, e.data);
+      } else {
+        this.sendError(request.id, ERR_INTERNAL_ERROR, e instanceof Error ? e.message : String(e));
+      }
+    } finally {
+      if (this.inFlight.get(key) === controller) this.inFlight.delete(key);
+    }
+  }
+
+  private async dispatchNotification(notification: JsonRpcNotification, handler: NotificationHandler): Promise<void> {
+    const ctx: NotificationContext = { method: notification.method, connection: this };
+    try {
+      await handler(notification.params, ctx);
+    } catch (e) {
+      this.emit('error', e instanceof Error ? e : new Error(String(e)));
+    }
+  }
+
+  private handleClose(reason?: Error): void {
     if (this.closed) return;
     this.closed = true;
 
     // Reject all pending requests and clear their timers
-    const closedErr = new ConnectionClosedError();
+    const closedErr = reason ?? new ConnectionClosedError();
     for (const [, pending] of this.pending) {
       if (pending.timer) clearTimeout(pending.timer);
       pending.reject(closedErr);
@@ -305,6 +1036,45 @@ export class McplConnection extends (EventEmitter as new () => TypedEmitter) {
     }
     this.incomingWaiters = [];
 
+    // Abort all in-flight handlers
+    for (const [, controller] of this.inFlight) {
+      controller.abort(closedErr);
+    }
+    this.inFlight.clear();
+    this.batchMembers.clear();
+
+    // Reject anyone waiting for the write buffer to drain
+    for (const waiter of this.drainWaiters) {
+      waiter.reject(closedErr);
+    }
+    this.drainWaiters = [];
+
     this.emit('close');
   }
 }
+
+// ── Message Helpers ──
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Structural check for a JSON-RPC 2.0 request, notification or response. */
+function isValidMessage(value: unknown): value is Record<string, unknown> {
+  if (!isPlainObject(value) || value.jsonrpc !== '2.0') return false;
+  return typeof value.method === 'string' || 'result' in value || 'error' in value;
+}
+
+/** Add `_meta.progressToken` to request params. Positional (array) params are left as-is. */
+function withProgressToken(params: unknown, token: ProgressToken): unknown {
+  if (params === undefined) return { _meta: { progressToken: token } };
+  if (!isPlainObject(params)) return params;
+  const meta = isPlainObject(params._meta) ? params._meta : {};
+  return { ...params, _meta: { ...meta, progressToken: token } satisfies RequestMeta };
+}
+
+function readProgressToken(params: unknown): ProgressToken | undefined {
+  if (!isPlainObject(params) || !isPlainObject(params._meta)) return undefined;
+  const token = params._meta.progressToken;
+  return typeof token === 'string' || typeof token === 'number' ? token : undefined;
+}
@@ -0,0 +1,21 @@
+/**
+ * Typed EventEmitter base — provides compile-time event name/argument checking.
+ * Internal helper; not re-exported from the package index.
+ */
+
+import { EventEmitter } from 'node:events';
+import type { EventEmitter as EventEmitterType } from 'node:events';
+
+export type EventMap<E> = { [K in keyof E]: unknown[] };
+
+export type TypedEmitter<E extends EventMap<E>> = {
+  on<K extends keyof E>(event: K, listener: (...args: E[K]) => void): TypedEmitter<E>;
+  emit<K extends keyof E>(event: K, ...args: E[K]): boolean;
+  once<K extends keyof E>(event: K, listener: (...args: E[K]) => void): TypedEmitter<E>;
+  removeListener<K extends keyof E>(event: K, listener: (...args: E[K]) => void): TypedEmitter<E>;
+} & EventEmitterType;
+
+/** `class Foo extends typedEmitter<FooEvents>() { ... }` */
+export function typedEmitter<E extends EventMap<E>>(): new () => TypedEmitter<E> {
+  return EventEmitter as unknown as new () => TypedEmitter<E>;
+}
@@ -1,7 +1,10 @@
 /**
- * Error types for MCPL connections.
+ * Error types for MCPL connections and state handling.
  */
 
+import type { JsonRpcId } from './types.js';
+import type { JsonPatchOperation } from './methods.js';
+
 export class ConnectionError extends Error {
   constructor(message: string) {
     super(message);
@@ -17,18 +20,122 @@ export class ConnectionClosedError extends ConnectionError {
 }
 
 export class ConnectionTimeoutError extends ConnectionError {
-  constructor() {
-    super('Request timed out');
+  constructor(message = 'Request timed out') {
+    super(message);
     this.name = 'ConnectionTimeoutError';
   }
 }
 
+export class ProcessExitError extends ConnectionError {
+  readonly exitCode: number | null;
+  readonly signal: NodeJS.Signals | null;
+
+  constructor(exitCode: number | null, signal: NodeJS.Signals | null) {
+    super(signal ? `Process killed by ${signal}` : `Process exited with code ${exitCode}`);
+    this.name = 'ProcessExitError';
+    this.exitCode = exitCode;
+    this.signal = signal;
+  }
+}
+
+export class RequestCancelledError extends ConnectionError {
+  readonly reason?: unknown;
+
+  constructor(reason?: unknown) {
+    super(reason instanceof Error ? `Request cancelled: ${reason.message}` : 'Request cancelled');
+    this.name = 'RequestCancelledError';
+    if (reason !== undefined) this.reason = reason;
+  }
+}
+
+export class HandshakeError extends ConnectionError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HandshakeError';
+  }
+}
+
+export class CapabilityError extends ConnectionError {
+  readonly method: string;
+  readonly missing: string[];
+
+  constructor(method: string, missing: string[]) {
+    super(`${method} requires capabilities that were not negotiated: ${missing.join(', ')}`);
+    this.name = 'CapabilityError';
+    this.method = method;
+    this.missing = missing;
+  }
+}
+
+export class FramingError extends ConnectionError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FramingError';
+  }
+}
+
+/** What could be recovered from the start of an oversized frame. */
+export interface FrameEnvelope {
+  id?: JsonRpcId;
+  method?: string;
+  kind?: 'request' | 'response';
+}
+
+export class FrameTooLargeError extends FramingError {
+  readonly size: number;
+  readonly limit: number;
+  readonly direction: 'incoming' | 'outgoing';
+  /** Method of the offending message, when known or recoverable. */
+  readonly method?: string;
+  /** Request id of an oversized incoming frame, when recoverable. */
+  readonly id?: JsonRpcId;
+  /** Whether an oversized incoming frame was a request or a response, when recoverable. */
+  readonly kind?: 'request' | 'response';
+
+  constructor(
+    size: number,
+    limit: number,
+    direction: 'incoming' | 'outgoing',
+    details: FrameEnvelope = {},
+  ) {
+    const what = direction === 'incoming' ? 'Incoming frame' : 'Outgoing message';
+    const suffix = details.method ? `: ${details.method}` : '';
+    super(`${what} too large (${size} bytes, limit ${limit})${suffix}`);
+    this.name = 'FrameTooLargeError';
+    this.size = size;
+    this.limit = limit;
+    this.direction = direction;
+    if (details.method !== undefined) this.method = details.method;
+    if (details.id !== undefined) this.id = details.id;
+    if (details.kind !== undefined) this.kind = details.kind;
+  }
+}
+
 export class RpcError extends ConnectionError {
   readonly code: number;
+  /** The error message as it appears on the wire (without the code prefix). */
+  readonly rpcMessage: string;
+  readonly data?: unknown;
 
-  constructor(code: number, message: string) {
+  constructor(code: number, message: string, data?: unknown) {
     super(`RPC error ${code}: ${message}`);
     this.name = 'RpcError';
     this.code = code;
+    this.rpcMessage = message;
+    if (data !== undefined) this.data = data;
+  }
+}
+
+/** A JSON Patch could not be applied. The document is left unchanged. */
+export class JsonPatchError extends Error {
+  /** Index of the failing operation within the patch. */
+  readonly index: number;
+  readonly operation: JsonPatchOperation;
+
+  constructor(message: string, index: number, operation: JsonPatchOperation) {
+    super(`Patch operation ${index} (${operation.op} ${operation.path}) failed: ${message}`);
+    this.name = 'JsonPatchError';
+    this.index = index;
+    this.operation = operation;
   }
 }
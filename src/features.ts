@@ -0,0 +1,245 @@
+/**
+ * Feature set tracking (MCPL Section 6).
+ *
+ * A `FeatureSetRegistry` holds the feature sets a server declared, which of
+ * them the host has enabled, and their scope configuration. The same class
+ * serves both sides:
+ *   - Host: learns declarations from `McplCapabilities.featureSets` and
+ *     `featureSets/changed`, and sends `featureSets/update` via `update()`.
+ *   - Server: learns enablement and scopes from `featureSets/update`, checks
+ *     resources with `isInScope()` or `requestScope()`, and announces new or
+ *     removed sets via `announce()`.
+ *
+ * Once attached to a connection, incoming calls whose params carry a
+ * `featureSet` are refused with `ERR_UNKNOWN_FEATURE_SET` or
+ * `ERR_FEATURE_SET_NOT_ENABLED` unless the set is declared and enabled.
+ */
+
+import type { McplConnection, RequestOptions } from './connection.js';
+import type { McplSession, SessionRole } from './session.js';
+import { method } from './methods.js';
+import type {
+  FeatureSetDeclaration,
+  FeatureSetsChangedParams,
+  FeatureSetsUpdateParams,
+  ScopeConfig,
+  ScopeElevateResult,
+} from './methods.js';
+import { ERR_FEATURE_SET_NOT_ENABLED, ERR_UNKNOWN_FEATURE_SET } from './types.js';
+import { ConnectionClosedError, RpcError } from './errors.js';
+import { ScopeMatcher } from './scope.js';
+import { typedEmitter } from './emitter.js';
+
+// ── Public Types ──
+
+export interface FeatureSetRegistryOptions {
+  role: SessionRole;
+  /** Feature sets known up front (e.g. from the server's capabilities). */
+  declared?: FeatureSetDeclaration[];
+  /** Whether declared sets start out enabled. Defaults to true. */
+  initiallyEnabled?: boolean;
+}
+
+export interface ScopeRequestOptions extends RequestOptions {
+  /** Label shown to the host. Defaults to the resource itself. */
+  label?: string;
+  /** Opaque data passed along in `scope.payload`. */
+  payload?: unknown;
+}
+
+export interface FeatureSetRegistryEvents {
+  /** Declarations, enablement or scopes changed. */
+  change: [];
+}
+
+// ── Registry ──
+
+export class FeatureSetRegistry extends typedEmitter<FeatureSetRegistryEvents>() {
+  readonly role: SessionRole;
+  private declarations = new Map<string, FeatureSetDeclaration>();
+  private enabledSets = new Set<string>();
+  private scopes = new Map<string, ScopeMatcher>();
+  private initiallyEnabled: boolean;
+  private connection: McplConnection | undefined;
+  private lastUpdate: FeatureSetsUpdateParams | undefined;
+
+  constructor(options: FeatureSetRegistryOptions) {
+    super();
+    this.role = options.role;
+    this.initiallyEnabled = options.initiallyEnabled ?? true;
+    for (const decl of options.declared ?? []) {
+      this.addDeclaration(decl);
+    }
+  }
+
+  /** Create a registry from a session's negotiated feature sets and attach it. */
+  static forSession(
+    session: McplSession,
+    options: Omit<FeatureSetRegistryOptions, 'role' | 'declared'> = {},
+  ): FeatureSetRegistry {
+    const registry = new FeatureSetRegistry({
+      ...options,
+      role: session.role,
+      declared: session.negotiated.featureSets,
+    });
+    registry.attach(session.connection);
+    return registry;
+  }
+
+  // ── Queries ──
+
+  get declared(): ReadonlyMap<string, FeatureSetDeclaration> {
+    return this.declarations;
+  }
+
+  get enabled(): ReadonlySet<string> {
+    return this.enabledSets;
+  }
+
+  /** The most recent `featureSets/update` sent or received, if any. */
+  get lastUpdateParams(): FeatureSetsUpdateParams | undefined {
+    return this.lastUpdate;
+  }
+
+  isDeclared(name: string): boolean {
+    return this.declarations.has(name);
+  }
+
+  isEnabled(name: string): boolean {
+    return this.enabledSets.has(name);
+  }
+
+  getScope(name: string): ScopeConfig | undefined {
+    return this.scopes.get(name)?.config;
+  }
+
+  /**
+   * Whether a resource may be accessed under a feature set: the set must be
+   * enabled and the resource must pass its scope (see `ScopeMatcher`). Sets
+   * without a scope allow every resource.
+   */
+  isInScope(featureSet: string, resource: string): boolean {
+    if (this.check(featureSet)) return false;
+    return this.scopes.get(featureSet)?.allows(resource) ?? true;
+  }
+
+  /** Why a call tagged with `featureSet` must be refused, or undefined if it may proceed. */
+  check(featureSet: string): RpcError | undefined {
+    if (!this.declarations.has(featureSet)) {
+      return new RpcError(ERR_UNKNOWN_FEATURE_SET, `Unknown feature set: ${featureSet}`);
+    }
+    if (!this.enabledSets.has(featureSet)) {
+      return new RpcError(ERR_FEATURE_SET_NOT_ENABLED, `Feature set not enabled: ${featureSet}`);
+    }
+    return undefined;
+  }
+
+  // ── State Changes ──
+
+  /** Apply a `featureSets/update` (sent by the host). Unknown names are ignored. */
+  applyUpdate(params: FeatureSetsUpdateParams): void {
+    for (const name of params.enabled ?? []) {
+      if (this.declarations.has(name)) this.enabledSets.add(name);
+    }
+    for (const name of params.disabled ?? []) {
+      this.enabledSets.delete(name);
+    }
+    for (const [name, scope] of Object.entries(params.scopes ?? {})) {
+      if (this.declarations.has(name)) this.scopes.set(name, new ScopeMatcher(scope));
+    }
+    this.lastUpdate = params;
+    this.emit('change');
+  }
+
+  /** Apply a `featureSets/changed` (sent by the server). */
+  applyChanged(params: FeatureSetsChangedParams): void {
+    for (const name of params.removed ?? []) {
+      this.declarations.delete(name);
+      this.enabledSets.delete(name);
+      this.scopes.delete(name);
+    }
+    for (const [name, decl] of Object.entries(params.added ?? {})) {
+      this.addDeclaration({ ...decl, name });
+    }
+    this.emit('change');
+  }
+
+  // ── Wiring ──
+
+  /**
+   * Listen for the peer's feature set notifications on a connection and
+   * refuse incoming calls tagged with an unknown or disabled feature set.
+   * Returns a function that detaches the registry.
+   */
+  attach(connection: McplConnection): () => void {
+    this.connection = connection;
+
+    if (this.role === 'server') {
+      connection.onNotification(method.FEATURE_SETS_UPDATE, (params) => this.applyUpdate(params));
+    } else {
+      connection.onNotification(method.FEATURE_SETS_CHANGED, (params) => this.applyChanged(params));
+    }
+
+    const removeGuard = connection.addGuard((msg) => {
+      const params = msg.type === 'request' ? msg.request.params : msg.notification.params;
+      const featureSet = (params as { featureSet?: unknown } | undefined)?.featureSet;
+      return typeof featureSet === 'string' ? this.check(featureSet) : undefined;
+    });
+
+    return () => {
+      removeGuard();
+      connection.removeHandler(this.role === 'server' ? method.FEATURE_SETS_UPDATE : method.FEATURE_SETS_CHANGED);
+      if (this.connection === connection) this.connection = undefined;
+    };
+  }
+
+  /** Host: send `featureSets/update` to the server and apply it locally. */
+  update(params: FeatureSetsUpdateParams): void {
+    if (this.role !== 'host') throw new Error('featureSets/update is sent by the host');
+    this.requireConnection().sendNotification(method.FEATURE_SETS_UPDATE, params);
+    this.applyUpdate(params);
+  }
+
+  /** Server: send `featureSets/changed` to the host and apply it locally. */
+  announce(params: FeatureSetsChangedParams): void {
+    if (this.role !== 'server') throw new Error('featureSets/changed is sent by the server');
+    this.requireConnection().sendNotification(method.FEATURE_SETS_CHANGED, params);
+    this.applyChanged(params);
+  }
+
+  /**
+   * Server: check a resource against the feature set's scope, and if it is
+   * out of scope ask the host for access with `scope/elevate`. Resolves to
+   * `{ approved: true }` without a round trip when already in scope. An
+   * approval does not widen the stored scope; the host does that with a
+   * further `featureSets/update` if it wants to.
+   */
+  async requestScope(
+    featureSet: string,
+    resource: string,
+    options: ScopeRequestOptions = {},
+  ): Promise<ScopeElevateResult> {
+    if (this.role !== 'server') throw new Error('scope/elevate is sent by the server');
+    if (this.isInScope(featureSet, resource)) return { approved: true };
+
+    const { label, payload, ...requestOptions } = options;
+    return this.requireConnection().sendRequest(
+      method.SCOPE_ELEVATE,
+      { featureSet, scope: { label: label ?? resource, payload: payload ?? { resource } } },
+      requestOptions,
+    );
+  }
+
+  // ── Internal ──
+
+  private addDeclaration(decl: FeatureSetDeclaration): void {
+    const isNew = !this.declarations.has(decl.name);
+    this.declarations.set(decl.name, decl);
+    if (isNew && this.initiallyEnabled) this.enabledSets.add(decl.name);
+  }
+
+  private requireConnection(): McplConnection {
+    if (!this.connection || this.connection.isClosed) throw new ConnectionClosedError();
+    return this.connection;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Atomic file writes for the file-backed stores (grants, checkpoints, outbox, usage).
+ * Internal helper; not re-exported from the package index.
+ */
+
+import { rename, writeFile } from 'node:fs/promises';
+
+/** The last write queued per path. */
+const writes = new Map<string, Promise<void>>();
+
+/**
+ * Replace `path` with `text` by writing a temp file and renaming it over the
+ * target. Writes to the same path run one at a time in call order, so they
+ * never share the temp file and the last call wins.
+ */
+export function writeFileAtomic(path: string, text: string): Promise<void> {
+  const write = async () => {
+    const tmp = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp, text, 'utf-8');
+    await rename(tmp, path);
+  };
+  const queued = (writes.get(path) ?? Promise.resolve()).then(write, write);
+  writes.set(path, queued);
+  const forget = () => {
+    if (writes.get(path) === queued) writes.delete(path);
+  };
+  queued.then(forget, forget);
+  return queued;
+}
@@ -0,0 +1,258 @@
+/**
+ * Message framing codecs for MCPL transports.
+ *
+ * A codec turns outgoing JSON strings into bytes on the wire and splits the
+ * incoming byte stream back into JSON strings. Two framings are provided:
+ *   - `ndjsonCodec`: newline-delimited JSON (the MCPL default)
+ *   - `contentLengthCodec`: LSP-style `Content-Length:` headers
+ *
+ * Decoders enforce an optional maximum frame size. Oversized frames are
+ * discarded without being buffered and reported as `FrameTooLargeError`,
+ * with the request id and method recovered from the start of the frame
+ * where possible.
+ */
+
+import { StringDecoder } from 'node:string_decoder';
+
+import type { JsonRpcId } from './types.js';
+import { FramingError, FrameTooLargeError } from './errors.js';
+import type { FrameEnvelope } from './errors.js';
+
+export interface FrameDecoder {
+  /** Feed a chunk of incoming data. Complete frames are passed to `onFrame`. */
+  write(chunk: Buffer | string): void;
+  /** Signal end of input, flushing any trailing frame. */
+  end(): void;
+}
+
+export interface DecoderOptions {
+  /** Maximum frame body size in bytes. Defaults to unbounded. */
+  maxFrameSize?: number;
+}
+
+export interface FramingCodec {
+  readonly name: string;
+  /** Frame a serialized JSON message for the wire. */
+  encode(message: string): string;
+  /** Create a stateful decoder for one incoming stream. */
+  createDecoder(
+    onFrame: (frame: string) => void,
+    onError: (error: FramingError) => void,
+    options?: DecoderOptions,
+  ): FrameDecoder;
+}
+
+/** How much of an oversized frame is kept for id/method recovery. */
+const HEAD_SAMPLE = 4096;
+
+// ── Newline-Delimited JSON ──
+
+class NdjsonDecoder implements FrameDecoder {
+  private text = new StringDecoder('utf-8');
+  private buffer = '';
+  private maxFrameSize: number;
+  /** Set while discarding the rest of an oversized line. */
+  private skipping: { head: string; size: number } | undefined;
+
+  constructor(
+    private onFrame: (frame: string) => void,
+    private onError: (error: FramingError) => void,
+    options: DecoderOptions,
+  ) {
+    this.maxFrameSize = options.maxFrameSize ?? Infinity;
+  }
+
+  write(chunk: Buffer | string): void {
+    this.buffer += typeof chunk === 'string' ? chunk : this.text.write(chunk);
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 1);
+      this.emitLine(line);
+    }
+
+    // A partial line is never shorter in bytes than in characters
+    if (this.buffer.length > this.maxFrameSize || this.skipping) {
+      this.skip(this.buffer);
+      this.buffer = '';
+    }
+  }
+
+  end(): void {
+    this.buffer += this.text.end();
+    const rest = this.buffer;
+    this.buffer = '';
+    this.emitLine(rest);
+  }
+
+  private skip(part: string): void {
+    if (!this.skipping) this.skipping = { head: '', size: 0 };
+    if (this.skipping.head.length < HEAD_SAMPLE) {
+      this.skipping.head += part.slice(0, HEAD_SAMPLE - this.skipping.head.length);
+    }
+    this.skipping.size += Buffer.byteLength(part, 'utf-8');
+  }
+
+  private emitLine(line: string): void {
+    if (this.skipping) {
+      this.skip(line);
+      const { head, size } = this.skipping;
+      this.skipping = undefined;
+      this.onError(oversized(size, this.maxFrameSize, head));
+      return;
+    }
+
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    const size = Buffer.byteLength(trimmed, 'utf-8');
+    if (size > this.maxFrameSize) {
+      this.onError(oversized(size, this.maxFrameSize, trimmed.slice(0, HEAD_SAMPLE)));
+      return;
+    }
+    this.onFrame(trimmed);
+  }
+}
+
+export const ndjsonCodec: FramingCodec = {
+  name: 'ndjson',
+  encode: (message) => message + '\n',
+  createDecoder: (onFrame, onError, options = {}) => new NdjsonDecoder(onFrame, onError, options),
+};
+
+// ── Content-Length Headers (LSP-style) ──
+
+const HEADER_TERMINATOR = Buffer.from('\r\n\r\n');
+
+/** Headers longer than this without a terminator are treated as garbage. */
+const MAX_HEADER_SIZE = 8192;
+
+class ContentLengthDecoder implements FrameDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+  /** Body length of the frame being read, once its header has been parsed. */
+  private bodyLength: number | undefined;
+  private maxFrameSize: number;
+  /** Set while discarding the body of an oversized frame. */
+  private skipping: { head: Buffer; size: number; remaining: number } | undefined;
+
+  constructor(
+    private onFrame: (frame: string) => void,
+    private onError: (error: FramingError) => void,
+    options: DecoderOptions,
+  ) {
+    this.maxFrameSize = options.maxFrameSize ?? Infinity;
+  }
+
+  write(chunk: Buffer | string): void {
+    const bytes = typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : chunk;
+    this.buffer = this.buffer.length === 0 ? bytes : Buffer.concat([this.buffer, bytes]);
+
+    for (;;) {
+      if (this.skipping) {
+        const take = Math.min(this.skipping.remaining, this.buffer.length);
+        if (this.skipping.head.length < HEAD_SAMPLE) {
+          const room = HEAD_SAMPLE - this.skipping.head.length;
+          this.skipping.head = Buffer.concat([this.skipping.head, this.buffer.subarray(0, Math.min(take, room))]);
+        }
+        this.buffer = this.buffer.subarray(take);
+        this.skipping.remaining -= take;
+        if (this.skipping.remaining > 0) return;
+
+        const { head, size } = this.skipping;
+        this.skipping = undefined;
+        this.onError(oversized(size, this.maxFrameSize, head.toString('utf-8')));
+        continue;
+      }
+
+      if (this.bodyLength === undefined) {
+        const headerEnd = this.buffer.indexOf(HEADER_TERMINATOR);
+        if (headerEnd === -1) {
+          if (this.buffer.length > MAX_HEADER_SIZE) {
+            this.buffer = Buffer.alloc(0);
+            this.onError(new FramingError(`Frame header exceeds ${MAX_HEADER_SIZE} bytes`));
+          }
+          return;
+        }
+
+        const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+        this.buffer = this.buffer.subarray(headerEnd + HEADER_TERMINATOR.length);
+
+        const length = parseContentLength(header);
+        if (length === undefined) {
+          this.onError(new FramingError(`Missing or invalid Content-Length header: ${JSON.stringify(header)}`));
+          continue;
+        }
+        if (length > this.maxFrameSize) {
+          this.skipping = { head: Buffer.alloc(0), size: length, remaining: length };
+          continue;
+        }
+        this.bodyLength = length;
+      }
+
+      if (this.buffer.length < this.bodyLength) return;
+
+      const body = this.buffer.subarray(0, this.bodyLength).toString('utf-8');
+      this.buffer = this.buffer.subarray(this.bodyLength);
+      this.bodyLength = undefined;
+      this.onFrame(body);
+    }
+  }
+
+  end(): void {
+    if (this.buffer.length > 0 || this.bodyLength !== undefined || this.skipping) {
+      this.onError(new FramingError('Stream ended in the middle of a frame'));
+    }
+    this.buffer = Buffer.alloc(0);
+    this.bodyLength = undefined;
+    this.skipping = undefined;
+  }
+}
+
+function parseContentLength(header: string): number | undefined {
+  for (const line of header.split('\r\n')) {
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    if (line.slice(0, colon).trim().toLowerCase() !== 'content-length') continue;
+    const value = line.slice(colon + 1).trim();
+    if (!/^\d+$/.test(value)) return undefined;
+    return Number(value);
+  }
+  return undefined;
+}
+
+export const contentLengthCodec: FramingCodec = {
+  name: 'content-length',
+  encode: (message) => `Content-Length: ${Buffer.byteLength(message, 'utf-8')}\r\n\r\n${message}`,
+  createDecoder: (onFrame, onError, options = {}) => new ContentLengthDecoder(onFrame, onError, options),
+};
+
+// ── Oversized Frame Recovery ──
+
+function oversized(size: number, limit: number, head: string): FrameTooLargeError {
+  return new FrameTooLargeError(size, limit, 'incoming', recoverEnvelope(head));
+}
+
+/**
+ * Best-effort recovery of `id`, `method` and kind from the start of a
+ * truncated JSON-RPC message. Only keys that appear before `params`/`result`/
+ * `error` are trusted, since anything after may belong to a nested object;
+ * which of those body keys comes first tells a request from a response.
+ */
+function recoverEnvelope(head: string): FrameEnvelope {
+  const body = /"(params|result|error)"\s*:/.exec(head);
+  const envelope = body ? head.slice(0, body.index) : head;
+
+  const recovered: FrameEnvelope = {};
+
+  const id = /"id"\s*:\s*(-?\d+|"(?:[^"\\]|\\.)*")/.exec(envelope);
+  if (id) recovered.id = JSON.parse(id[1]) as JsonRpcId;
+
+  const method = /"method"\s*:\s*("(?:[^"\\]|\\.)*")/.exec(envelope);
+  if (method) recovered.method = JSON.parse(method[1]) as string;
+
+  if (body) recovered.kind = body[1] === 'params' ? 'request' : 'response';
+  else if (recovered.method !== undefined) recovered.kind = 'request';
+
+  return recovered;
+}
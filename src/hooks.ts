@@ -0,0 +1,331 @@
+/**
+ * Host-side context hooks across several MCPL servers (MCPL Section 10).
+ *
+ * A `ContextHookOrchestrator` sends `context/beforeInference` to every
+ * registered server that negotiated it, in parallel and with a per-server
+ * deadline. Servers that fail or miss the deadline are skipped so inference is
+ * never blocked on them.
+ *
+ * The returned injections are grouped by position, ordered by namespace, and
+ * trimmed to a token budget (a share of the model's context window by
+ * default). When several servers use the same namespace at the same position,
+ * `collisions` decides what happens:
+ *   - 'rename' (default): keep all, prefixing namespaces with the server name
+ *   - 'first': keep the one from the server registered first
+ *   - 'merge': concatenate their content into one injection
+ *
+ * `afterInference()` honors each server's negotiated `blocking` flag. Blocking
+ * servers are asked in order before the response is released, each seeing the
+ * previous one's `modifiedResponse`; every change is recorded with its feature
+ * set for auditing. Non-blocking servers are notified once the response has
+ * been delivered.
+ */
+
+import type { McplSession } from './session.js';
+import { method } from './methods.js';
+import type {
+  ContextAfterInferenceParams,
+  ContextBeforeInferenceParams,
+  ContextBeforeInferenceResult,
+  ContextInjection,
+  ContextInjectionPosition,
+} from './methods.js';
+import type { ContentBlock } from './types.js';
+
+// ── Public Types ──
+
+export type NamespaceCollisionPolicy = 'rename' | 'first' | 'merge';
+
+export interface ContextHookOptions {
+  /** Per-server deadline (ms) for hook requests. Defaults to 2000. */
+  timeout?: number;
+  collisions?: NamespaceCollisionPolicy;
+  /** Fixed token budget for all injections. Overrides `budgetShare`. */
+  tokenBudget?: number;
+  /** Share of `ModelInfo.contextWindow` injections may use. Defaults to 0.25. */
+  budgetShare?: number;
+  /** Token estimate for one injection. Defaults to ~4 characters per token. */
+  estimateTokens?: (content: string | ContentBlock[]) => number;
+  /** Blocking afterInference servers listed here go first, in this order; the rest follow in registration order. */
+  blockingOrder?: string[];
+  /** Modifications kept in `auditTrail`. Defaults to 1000. */
+  auditLimit?: number;
+}
+
+export interface MergedInjection extends ContextInjection {
+  /** Servers that contributed this injection (several when merged). */
+  servers: string[];
+  featureSet: string;
+  tokens: number;
+}
+
+export interface MergedContext {
+  injections: Record<ContextInjectionPosition, MergedInjection[]>;
+  /** Tokens used by the kept injections. */
+  tokens: number;
+  budget: number;
+  /** Injections left out to stay within the budget. */
+  dropped: MergedInjection[];
+  /** Servers that failed or missed the deadline. */
+  skipped: Array<{ server: string; error: Error }>;
+}
+
+/** A change a blocking afterInference server made to a response. */
+export interface ResponseModification {
+  inferenceId: string;
+  conversationId: string;
+  server: string;
+  featureSet: string;
+  before: string;
+  after: string;
+  /** ISO 8601. */
+  timestamp: string;
+}
+
+export interface AfterInferenceOutcome {
+  /** The response after all blocking servers ran. */
+  response: string;
+  modifications: ResponseModification[];
+  /** Servers that failed or missed the deadline (blocking) or could not be notified. */
+  skipped: Array<{ server: string; error: Error }>;
+}
+
+/** Positions in the order they are filled against the budget. */
+const POSITIONS: ContextInjectionPosition[] = ['system', 'beforeUser', 'afterUser'];
+
+// ── Orchestrator ──
+
+export class ContextHookOrchestrator {
+  private options: ContextHookOptions;
+  private sessions = new Map<string, McplSession>();
+  private audit: ResponseModification[] = [];
+
+  constructor(options: ContextHookOptions = {}) {
+    this.options = options;
+  }
+
+  /** Register a server session under a unique name. */
+  add(name: string, session: McplSession): void {
+    if (this.sessions.has(name)) throw new Error(`Server already registered: ${name}`);
+    this.sessions.set(name, session);
+  }
+
+  remove(name: string): boolean {
+    return this.sessions.delete(name);
+  }
+
+  /** Registered server names, in registration order. */
+  get servers(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  /** Fan `context/beforeInference` out to every capable server and merge the answers. */
+  async beforeInference(params: ContextBeforeInferenceParams): Promise<MergedContext> {
+    const timeout = this.options.timeout ?? 2000;
+    const targets = [...this.sessions].filter(
+      ([, session]) => !session.connection.isClosed && session.isAllowed(method.CONTEXT_BEFORE_INFERENCE),
+    );
+
+    const settled = await Promise.allSettled(
+      targets.map(([, session]) => session.sendRequest(method.CONTEXT_BEFORE_INFERENCE, params, timeout)),
+    );
+
+    const collected: MergedInjection[] = [];
+    const skipped: MergedContext['skipped'] = [];
+    settled.forEach((outcome, i) => {
+      const server = targets[i][0];
+      if (outcome.status === 'rejected') {
+        skipped.push({ server, error: outcome.reason as Error });
+        return;
+      }
+      if (!isBeforeInferenceResult(outcome.value)) {
+        skipped.push({ server, error: new Error(`Malformed ${method.CONTEXT_BEFORE_INFERENCE} result from ${server}`) });
+        return;
+      }
+      for (const injection of outcome.value.contextInjections ?? []) {
+        collected.push({
+          ...injection,
+          servers: [server],
+          featureSet: outcome.value.featureSet,
+          tokens: this.estimate(injection.content),
+        });
+      }
+    });
+
+    const budget =
+      this.options.tokenBudget ?? Math.floor(params.model.contextWindow * (this.options.budgetShare ?? 0.25));
+    return { ...this.fit(this.resolveCollisions(collected), budget), budget, skipped };
+  }
+
+  /**
+   * Run the afterInference hooks for a response. Blocking servers may rewrite
+   * `params.assistantMessage`; the final text is passed to `deliver` (awaited)
+   * before non-blocking servers are notified with it.
+   */
+  async afterInference(
+    params: ContextAfterInferenceParams,
+    deliver?: (response: string) => void | Promise<void>,
+  ): Promise<AfterInferenceOutcome> {
+    const timeout = this.options.timeout ?? 2000;
+    const live = [...this.sessions].filter(
+      ([, session]) => !session.connection.isClosed && session.isAllowed(method.CONTEXT_AFTER_INFERENCE),
+    );
+    const blocking = live.filter(([, s]) => s.negotiated.contextHooks.afterInference?.blocking);
+    const nonBlocking = live.filter(([, s]) => !s.negotiated.contextHooks.afterInference?.blocking);
+
+    const order = this.options.blockingOrder ?? [];
+    const rank = (name: string) => (order.includes(name) ? order.indexOf(name) : order.length);
+    blocking.sort(([a], [b]) => rank(a) - rank(b));
+
+    let response = params.assistantMessage;
+    const modifications: ResponseModification[] = [];
+    const skipped: AfterInferenceOutcome['skipped'] = [];
+
+    for (const [server, session] of blocking) {
+      try {
+        const result = await session.sendRequest(
+          method.CONTEXT_AFTER_INFERENCE,
+          { ...params, assistantMessage: response },
+          timeout,
+        );
+        if (result.modifiedResponse !== undefined && result.modifiedResponse !== response) {
+          modifications.push({
+            inferenceId: params.inferenceId,
+            conversationId: params.conversationId,
+            server,
+            featureSet: result.featureSet,
+            before: response,
+            after: result.modifiedResponse,
+            timestamp: new Date().toISOString(),
+          });
+          response = result.modifiedResponse;
+        }
+      } catch (err) {
+        skipped.push({ server, error: err as Error });
+      }
+    }
+
+    this.recordAudit(modifications);
+    await deliver?.(response);
+
+    for (const [server, session] of nonBlocking) {
+      try {
+        session.sendNotification(method.CONTEXT_AFTER_INFERENCE, { ...params, assistantMessage: response });
+      } catch (err) {
+        skipped.push({ server, error: err as Error });
+      }
+    }
+
+    return { response, modifications, skipped };
+  }
+
+  /** Recent response modifications, oldest first. Optionally for one inference only. */
+  auditTrail(inferenceId?: string): ResponseModification[] {
+    return inferenceId === undefined ? this.audit.slice() : this.audit.filter((m) => m.inferenceId === inferenceId);
+  }
+
+  // ── Internal ──
+
+  private recordAudit(modifications: ResponseModification[]): void {
+    this.audit.push(...modifications);
+    const limit = this.options.auditLimit ?? 1000;
+    if (this.audit.length > limit) this.audit.splice(0, this.audit.length - limit);
+  }
+
+  private resolveCollisions(injections: MergedInjection[]): MergedInjection[] {
+    const policy = this.options.collisions ?? 'rename';
+    const groups = new Map<string, MergedInjection[]>();
+    for (const injection of injections) {
+      const key = `${injection.position}\u0000${injection.namespace}`;
+      const group = groups.get(key);
+      if (group) group.push(injection);
+      else groups.set(key, [injection]);
+    }
+
+    const resolved: MergedInjection[] = [];
+    for (const group of groups.values()) {
+      if (group.length === 1) {
+        resolved.push(group[0]);
+      } else if (policy === 'first') {
+        resolved.push(group[0]);
+      } else if (policy === 'merge') {
+        const content = group.map((g) => g.content).reduce(concatContent);
+        resolved.push({
+          ...group[0],
+          content,
+          servers: group.flatMap((g) => g.servers),
+          tokens: this.estimate(content),
+        });
+      } else {
+        for (const injection of group) {
+          resolved.push({ ...injection, namespace: `${injection.servers[0]}:${injection.namespace}` });
+        }
+      }
+    }
+    return resolved;
+  }
+
+  /** Group by position, order by namespace, and keep what fits in the budget. */
+  private fit(injections: MergedInjection[], budget: number): Omit<MergedContext, 'budget' | 'skipped'> {
+    const result: MergedContext['injections'] = { system: [], beforeUser: [], afterUser: [] };
+    const dropped: MergedInjection[] = [];
+    let tokens = 0;
+
+    for (const position of POSITIONS) {
+      const group = injections
+        .filter((i) => i.position === position)
+        .sort((a, b) => (a.namespace < b.namespace ? -1 : a.namespace > b.namespace ? 1 : 0));
+      for (const injection of group) {
+        if (tokens + injection.tokens > budget) {
+          dropped.push(injection);
+          continue;
+        }
+        tokens += injection.tokens;
+        result[position].push(injection);
+      }
+    }
+    return { injections: result, tokens, dropped };
+  }
+
+  private estimate(content: string | ContentBlock[]): number {
+    return (this.options.estimateTokens ?? estimateTokens)(content);
+  }
+}
+
+// ── Helpers ──
+
+/** Rough token estimate: ~4 characters per token. */
+export function estimateTokens(content: string | ContentBlock[]): number {
+  const text =
+    typeof content === 'string'
+      ? content
+      : content.map((block) => (block.type === 'text' ? block.text : JSON.stringify(block))).join('');
+  return Math.ceil(text.length / 4);
+}
+
+/** Whether a server's answer has the shape `beforeInference()` relies on. */
+function isBeforeInferenceResult(value: unknown): value is ContextBeforeInferenceResult {
+  if (typeof value !== 'object' || value === null) return false;
+  const { featureSet, contextInjections } = value as Partial<ContextBeforeInferenceResult>;
+  return (
+    typeof featureSet === 'string' &&
+    (contextInjections === undefined || (Array.isArray(contextInjections) && contextInjections.every(isInjection)))
+  );
+}
+
+function isInjection(value: unknown): value is ContextInjection {
+  if (typeof value !== 'object' || value === null) return false;
+  const { namespace, position, content } = value as Partial<ContextInjection>;
+  return (
+    typeof namespace === 'string' &&
+    position !== undefined &&
+    POSITIONS.includes(position) &&
+    (typeof content === 'string' || Array.isArray(content))
+  );
+}
+
+function concatContent(a: string | ContentBlock[], b: string | ContentBlock[]): string | ContentBlock[] {
+  if (typeof a === 'string' && typeof b === 'string') return `${a}\n\n${b}`;
+  const toBlocks = (c: string | ContentBlock[]): ContentBlock[] => (typeof c === 'string' ? [{ type: 'text', text: c }] : c);
+  return [...toBlocks(a), ...toBlocks(b)];
+}
@@ -0,0 +1,197 @@
+/**
+ * Host-side intake for `push/event` (MCPL Section 9).
+ *
+ * A `PushEventInbox` sits between the connection and the host's event
+ * callback:
+ *   - Deduplication: an `eventId` seen within `dedupWindow` gets the same
+ *     answer as the first delivery, so server retries are idempotent.
+ *   - Rate limiting: a token bucket per feature set. Events over the limit are
+ *     answered `accepted: false` with a reason and never reach the callback.
+ *   - Reordering: with `reorderDelay` set, events are held briefly and
+ *     delivered in `timestamp` order. The request is answered once delivered.
+ *
+ * The callback sees one event at a time.
+ */
+
+import type { McplConnection } from './connection.js';
+import { method } from './methods.js';
+import type { PushEventParams, PushEventResult } from './methods.js';
+import { typedEmitter } from './emitter.js';
+
+// ── Public Types ──
+
+/**
+ * Handle an accepted event. Return an `inferenceId` if the event triggered
+ * inference, or a full result to refuse it.
+ */
+export type PushEventHandler = (
+  event: PushEventParams,
+) => string | void | PushEventResult | Promise<string | void | PushEventResult>;
+
+export interface RateLimit {
+  /** Events allowed in a burst. */
+  burst: number;
+  /** Sustained events per second. */
+  perSecond: number;
+}
+
+export interface PushEventInboxOptions {
+  handler: PushEventHandler;
+  /** How long (ms) event ids are remembered for deduplication. Defaults to 5 minutes. */
+  dedupWindow?: number;
+  /** How long (ms) to hold events for timestamp reordering. Defaults to 0 (deliver immediately). */
+  reorderDelay?: number;
+  /** Limit for feature sets not listed in `rateLimits`. Defaults to unlimited. */
+  defaultRateLimit?: RateLimit;
+  rateLimits?: Record<string, RateLimit>;
+  /** Clock, for tests. */
+  now?: () => number;
+}
+
+export interface PushEventInboxEvents {
+  delivered: [event: PushEventParams, result: PushEventResult];
+  rejected: [event: PushEventParams, reason: string];
+  duplicate: [event: PushEventParams];
+}
+
+interface Held {
+  event: PushEventParams;
+  timestamp: number;
+  deadline: number;
+  resolve: (result: PushEventResult) => void;
+  reject: (err: unknown) => void;
+}
+
+// ── Inbox ──
+
+export class PushEventInbox extends typedEmitter<PushEventInboxEvents>() {
+  private options: PushEventInboxOptions;
+  private now: () => number;
+  private seen = new Map<string, { at: number; result: Promise<PushEventResult> }>();
+  private buckets = new Map<string, { tokens: number; updated: number }>();
+  private held: Held[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private delivery: Promise<unknown> = Promise.resolve();
+
+  constructor(options: PushEventInboxOptions) {
+    super();
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Answer incoming `push/event` requests on a connection. Returns a remover. */
+  attach(connection: McplConnection): () => void {
+    connection.handle(method.PUSH_EVENT, (params) => this.receive(params));
+    return () => connection.removeHandler(method.PUSH_EVENT);
+  }
+
+  /** Run an event through deduplication, rate limiting and ordering. */
+  receive(event: PushEventParams): Promise<PushEventResult> {
+    this.forgetExpired();
+
+    const seen = this.seen.get(event.eventId);
+    if (seen) {
+      this.emit('duplicate', event);
+      return seen.result;
+    }
+
+    if (!this.takeToken(event.featureSet)) {
+      const reason = `Rate limit exceeded for feature set ${event.featureSet}`;
+      this.emit('rejected', event, reason);
+      return Promise.resolve({ accepted: false, reason });
+    }
+
+    const result = this.options.reorderDelay ? this.hold(event) : this.deliver(event);
+    this.seen.set(event.eventId, { at: this.now(), result });
+    // A failed delivery may be retried
+    result.catch(() => this.seen.delete(event.eventId));
+    return result;
+  }
+
+  /** Deliver all held events now, in timestamp order. */
+  flush(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.release(this.held.slice());
+  }
+
+  // ── Internal ──
+
+  private takeToken(featureSet: string): boolean {
+    const limit = this.options.rateLimits?.[featureSet] ?? this.options.defaultRateLimit;
+    if (!limit) return true;
+
+    const now = this.now();
+    const bucket = this.buckets.get(featureSet) ?? { tokens: limit.burst, updated: now };
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + ((now - bucket.updated) / 1000) * limit.perSecond);
+    bucket.updated = now;
+    this.buckets.set(featureSet, bucket);
+
+    if (bucket.tokens < 1) return false;
+    bucket.tokens -= 1;
+    return true;
+  }
+
+  private forgetExpired(): void {
+    const cutoff = this.now() - (this.options.dedupWindow ?? 5 * 60_000);
+    for (const [id, entry] of this.seen) {
+      if (entry.at >= cutoff) break;
+      this.seen.delete(id);
+    }
+  }
+
+  /** Call the handler, one event at a time. */
+  private deliver(event: PushEventParams): Promise<PushEventResult> {
+    const run = this.delivery.then(async () => {
+      const outcome = await this.options.handler(event);
+      const result: PushEventResult =
+        typeof outcome === 'string' ? { accepted: true, inferenceId: outcome } : outcome ?? { accepted: true };
+      this.emit('delivered', event, result);
+      return result;
+    });
+    this.delivery = run.catch(() => {});
+    return run;
+  }
+
+  private hold(event: PushEventParams): Promise<PushEventResult> {
+    return new Promise((resolve, reject) => {
+      const arrived = this.now();
+      const timestamp = Date.parse(event.timestamp);
+      this.held.push({
+        event,
+        timestamp: Number.isNaN(timestamp) ? arrived : timestamp,
+        deadline: arrived + this.options.reorderDelay!,
+        resolve,
+        reject,
+      });
+      this.schedule();
+    });
+  }
+
+  private schedule(): void {
+    if (this.timer || this.held.length === 0) return;
+    const next = Math.min(...this.held.map((h) => h.deadline));
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.releaseDue();
+      this.schedule();
+    }, Math.max(0, next - this.now()));
+  }
+
+  /** Release events whose hold has expired, along with any that must precede them. */
+  private releaseDue(): void {
+    const now = this.now();
+    const due = this.held.filter((h) => h.deadline <= now);
+    if (due.length === 0) return;
+    const latest = Math.max(...due.map((h) => h.timestamp));
+    this.release(this.held.filter((h) => h.timestamp <= latest));
+  }
+
+  private release(batch: Held[]): void {
+    this.held = this.held.filter((h) => !batch.includes(h));
+    batch.sort((a, b) => a.timestamp - b.timestamp);
+    for (const h of batch) {
+      this.deliver(h.event).then(h.resolve, h.reject);
+    }
+  }
+}
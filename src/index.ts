@@ -2,4 +2,19 @@ export * from './types.js';
 export * from './methods.js';
 export * from './capabilities.js';
 export * from './connection.js';
+export * from './framing.js';
+export * from './server.js';
+export * from './session.js';
+export * from './features.js';
+export * from './scope.js';
+export * from './approval.js';
+export * from './patch.js';
+export * from './checkpoints.js';
+export * from './inbox.js';
+export * from './outbox.js';
+export * from './backoff.js';
+export * from './reconnect.js';
+export * from './hooks.js';
+export * from './inference.js';
+export * from './usage.js';
 export * from './errors.js';
@@ -0,0 +1,413 @@
+/**
+ * Host-side handling of `inference/request` (MCPL Section 11).
+ *
+ * An `InferenceBroker` validates incoming requests, fills in per-feature-set
+ * defaults for `maxTokens` and `temperature`, and routes each request to an
+ * `InferenceProvider`, which is whatever the host uses to run a model. Routing
+ * picks, in order: the `route` callback, the feature set's entry in `routes`,
+ * then the first registered provider.
+ *
+ * When the server asks for `stream: true` and streaming was negotiated, the
+ * broker sends the provider's output as ordered `inference/chunk`
+ * notifications carrying the request's JSON-RPC id, then the final result.
+ * On the server, `streamInference()` consumes those chunks as an
+ * `AsyncIterable<string>`, restoring order by `index`, and falls back to a
+ * plain request when streaming isn't available.
+ *
+ * With a `ledger`, each request reserves its estimated usage against the
+ * quotas before it reaches a provider (`maxTokens` for output, or
+ * `defaultOutputEstimate` when no default sets it) and records its real usage
+ * afterwards (see `usage.ts`).
+ *
+ * `EchoInferenceProvider` is a deterministic provider for tests and offline use.
+ */
+
+import type { McplConnection, RequestOptions } from './connection.js';
+import { McplSession } from './session.js';
+import { method } from './methods.js';
+import type {
+  InferenceChunkParams,
+  InferenceMessage,
+  InferencePreferences,
+  InferenceRequestParams,
+  InferenceRequestResult,
+} from './methods.js';
+import { ERR_INVALID_PARAMS, ERR_INVALID_REQUEST } from './types.js';
+import { RpcError } from './errors.js';
+import type { InferenceUsageLedger, UsageKey } from './usage.js';
+import { estimateTokens } from './hooks.js';
+
+// ── Public Types ──
+
+export interface InferenceContext {
+  featureSet: string;
+  conversationId?: string;
+  /** Aborted when the server cancels the request or disconnects. */
+  signal?: AbortSignal;
+}
+
+export interface InferenceProvider {
+  readonly name: string;
+  complete(
+    messages: InferenceMessage[],
+    preferences: InferencePreferences,
+    context: InferenceContext,
+  ): InferenceRequestResult | Promise<InferenceRequestResult>;
+  /**
+   * Optional streaming variant: call `emit` for each piece of output, then
+   * resolve with the final result. Providers without it are streamed as a
+   * single chunk.
+   */
+  stream?(
+    messages: InferenceMessage[],
+    preferences: InferencePreferences,
+    context: InferenceContext,
+    emit: (delta: string) => void,
+  ): Promise<InferenceRequestResult>;
+}
+
+export interface InferenceCompleteOptions {
+  signal?: AbortSignal;
+  /** Receive output incrementally. Uses the provider's `stream()` when it has one. */
+  onDelta?: (delta: string) => void;
+  /** Server the request came from, for the ledger. Defaults to 'unknown'. */
+  server?: string;
+}
+
+/** Output of `streamInference()`: the text as it arrives, then the final result. */
+export interface InferenceStream extends AsyncIterable<string> {
+  readonly result: Promise<InferenceRequestResult>;
+  /** False when the request fell back to non-streaming. */
+  readonly streaming: boolean;
+  /** Chunk indices that never arrived (their text was recovered from the final result). */
+  readonly missing: number[];
+}
+
+export interface InferenceBrokerOptions {
+  providers: InferenceProvider[];
+  /** Feature set → provider name. */
+  routes?: Record<string, string>;
+  /** Pick a provider name for a request. Returning undefined falls through to `routes`. */
+  route?: (params: InferenceRequestParams) => string | undefined;
+  /** Preferences applied when a request doesn't set them. */
+  defaults?: InferencePreferences;
+  /** Per-feature-set preferences, taking precedence over `defaults`. */
+  featureSetDefaults?: Record<string, InferencePreferences>;
+  /** Enforce token quotas and record usage. */
+  ledger?: InferenceUsageLedger;
+  /** Output tokens the ledger reserves for a request without `maxTokens`. Defaults to 1024. */
+  defaultOutputEstimate?: number;
+}
+
+// ── Broker ──
+
+export class InferenceBroker {
+  private options: InferenceBrokerOptions;
+  private providers = new Map<string, InferenceProvider>();
+
+  constructor(options: InferenceBrokerOptions) {
+    this.options = options;
+    for (const provider of options.providers) this.addProvider(provider);
+  }
+
+  addProvider(provider: InferenceProvider): void {
+    if (this.providers.has(provider.name)) throw new Error(`Provider already registered: ${provider.name}`);
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Answer incoming `inference/request` calls on a session or connection.
+   * Requests with `stream: true` are streamed unless the session didn't
+   * negotiate `inference/chunk`; they need a numeric JSON-RPC id, since
+   * chunks refer to it, and are refused with `ERR_INVALID_REQUEST` otherwise.
+   * Usage is recorded under `server`, which defaults to the session's peer
+   * name. Returns a remover.
+   */
+  attach(target: McplConnection | McplSession, server?: string): () => void {
+    const connection = target instanceof McplSession ? target.connection : target;
+    const canStream = !(target instanceof McplSession) || target.isAllowed(method.INFERENCE_CHUNK);
+    server ??= target instanceof McplSession ? target.peerInfo.name : undefined;
+
+    connection.handle(method.INFERENCE_REQUEST, (params, ctx) => {
+      if (!params?.stream || !canStream) return this.complete(params, { signal: ctx.signal, server });
+      // `inference/chunk` refers to its request by a numeric id
+      const requestId = ctx.id;
+      if (typeof requestId !== 'number') {
+        throw new RpcError(ERR_INVALID_REQUEST, 'Streaming inference requires a numeric request id');
+      }
+      let index = 0;
+      return this.complete(params, {
+        signal: ctx.signal,
+        server,
+        onDelta: (delta) => {
+          const chunk: InferenceChunkParams = { requestId, index: index++, delta };
+          connection.sendNotification(method.INFERENCE_CHUNK, chunk);
+        },
+      });
+    });
+    return () => connection.removeHandler(method.INFERENCE_REQUEST);
+  }
+
+  /**
+   * Validate, apply defaults, and run a request on the routed provider.
+   * Throws `RpcError` (`ERR_QUOTA_EXCEEDED`) if the ledger has no room for it.
+   */
+  async complete(params: InferenceRequestParams, options: InferenceCompleteOptions = {}): Promise<InferenceRequestResult> {
+    validateRequest(params);
+    const { ledger } = this.options;
+    if (!ledger) return this.run(params, options);
+
+    const key: UsageKey = { server: options.server ?? 'unknown', featureSet: params.featureSet };
+    if (params.conversationId !== undefined) key.conversationId = params.conversationId;
+    const reservation = ledger.reserve(key, {
+      inputTokens: params.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+      outputTokens: this.preferencesFor(params).maxTokens ?? this.options.defaultOutputEstimate ?? 1024,
+    });
+    try {
+      const result = await this.run(params, options);
+      reservation.commit(result.usage);
+      return result;
+    } catch (err) {
+      reservation.release();
+      throw err;
+    }
+  }
+
+  /** The provider a request would be routed to. */
+  select(params: InferenceRequestParams): InferenceProvider {
+    const name = this.options.route?.(params) ?? this.options.routes?.[params.featureSet];
+    if (name === undefined) {
+      const [first] = this.providers.values();
+      if (!first) throw new Error('No inference providers registered');
+      return first;
+    }
+    const provider = this.providers.get(name);
+    if (!provider) throw new Error(`Unknown inference provider: ${name}`);
+    return provider;
+  }
+
+  /** Request preferences with feature set and global defaults filled in. */
+  preferencesFor(params: InferenceRequestParams): InferencePreferences {
+    return {
+      ...this.options.defaults,
+      ...this.options.featureSetDefaults?.[params.featureSet],
+      ...definedOnly(params.preferences ?? {}),
+    };
+  }
+
+  // ── Internal ──
+
+  private async run(params: InferenceRequestParams, options: InferenceCompleteOptions): Promise<InferenceRequestResult> {
+    const provider = this.select(params);
+    const preferences = this.preferencesFor(params);
+    const context: InferenceContext = { featureSet: params.featureSet, signal: options.signal };
+    if (params.conversationId !== undefined) context.conversationId = params.conversationId;
+
+    const { onDelta } = options;
+    if (!onDelta) return provider.complete(params.messages, preferences, context);
+    if (provider.stream) return provider.stream(params.messages, preferences, context, onDelta);
+
+    const result = await provider.complete(params.messages, preferences, context);
+    if (result.content) onDelta(result.content);
+    return result;
+  }
+}
+
+// ── Echo Provider ──
+
+/**
+ * Deterministic provider: answers with the last user message, truncated to
+ * `maxTokens` words. Tokens are counted as whitespace-separated words.
+ */
+export class EchoInferenceProvider implements InferenceProvider {
+  readonly name: string;
+  private model: string;
+
+  constructor(options: { name?: string; model?: string } = {}) {
+    this.name = options.name ?? 'echo';
+    this.model = options.model ?? 'echo-1';
+  }
+
+  complete(messages: InferenceMessage[], preferences: InferencePreferences): InferenceRequestResult {
+    const lastUser = [...messages].reverse().find((m) => m.role === 'user') ?? messages[messages.length - 1];
+    let words = countWords(lastUser?.content ?? '');
+    let finishReason = 'stop';
+    if (preferences.maxTokens !== undefined && words.length > preferences.maxTokens) {
+      words = words.slice(0, preferences.maxTokens);
+      finishReason = 'length';
+    }
+
+    return {
+      content: words.join(' '),
+      model: this.model,
+      finishReason,
+      usage: {
+        inputTokens: messages.reduce((sum, m) => sum + countWords(m.content).length, 0),
+        outputTokens: words.length,
+      },
+    };
+  }
+
+  /** Streams the echo one word per chunk. */
+  async stream(
+    messages: InferenceMessage[],
+    preferences: InferencePreferences,
+    _context: InferenceContext,
+    emit: (delta: string) => void,
+  ): Promise<InferenceRequestResult> {
+    const result = this.complete(messages, preferences);
+    countWords(result.content).forEach((word, i) => emit(i === 0 ? word : ` ${word}`));
+    return result;
+  }
+}
+
+// ── Streaming Consumer ──
+
+/** Open streams per connection, by request id. */
+const chunkSinks = new WeakMap<McplConnection, Map<number, (chunk: InferenceChunkParams) => void>>();
+
+/**
+ * Server: send `inference/request` and consume the answer as it streams.
+ * Over a session that didn't negotiate streaming, the request is sent with
+ * `stream: false` and the whole content arrives as one piece.
+ *
+ * Registers an `inference/chunk` handler on the connection, replacing any
+ * other one.
+ */
+export function streamInference(
+  target: McplConnection | McplSession,
+  params: InferenceRequestParams,
+  options: RequestOptions = {},
+): InferenceStream {
+  const connection = target instanceof McplSession ? target.connection : target;
+  const streaming = !(target instanceof McplSession) || target.isAllowed(method.INFERENCE_CHUNK);
+  const send = <R>(p: InferenceRequestParams, opts: RequestOptions) =>
+    (target instanceof McplSession
+      ? target.sendRequest(method.INFERENCE_REQUEST, p, opts)
+      : connection.sendRequest(method.INFERENCE_REQUEST, p, opts)) as Promise<R>;
+
+  const queue: string[] = [];
+  const buffered = new Map<number, string>();
+  const missing: number[] = [];
+  let nextIndex = 0;
+  let delivered = '';
+  let done = false;
+  let failure: unknown;
+  let wake: (() => void) | undefined;
+
+  const push = (text: string) => {
+    if (!text) return;
+    queue.push(text);
+    delivered += text;
+    wake?.();
+  };
+
+  const onChunk = (chunk: InferenceChunkParams) => {
+    if (chunk.index < nextIndex || buffered.has(chunk.index)) return;
+    buffered.set(chunk.index, chunk.delta);
+    while (buffered.has(nextIndex)) {
+      push(buffered.get(nextIndex)!);
+      buffered.delete(nextIndex++);
+    }
+  };
+
+  let requestId: number | undefined;
+  const result = send<InferenceRequestResult>({ ...params, stream: streaming }, {
+    ...options,
+    onRequestId: (id) => {
+      requestId = id;
+      if (streaming) sinksFor(connection).set(id, onChunk);
+      options.onRequestId?.(id);
+    },
+  }).then(
+    (final) => {
+      // Anything still buffered sits past a gap; the final content fills it in
+      if (buffered.size > 0) {
+        const highest = Math.max(...buffered.keys());
+        for (let i = nextIndex; i < highest; i++) if (!buffered.has(i)) missing.push(i);
+      }
+      if (final.content.startsWith(delivered)) {
+        push(final.content.slice(delivered.length));
+      } else if (missing.length > 0) {
+        failure = new Error(`Streamed output has gaps at chunks ${missing.join(', ')} and does not match the result`);
+      }
+      return final;
+    },
+    (err) => {
+      failure = err;
+      throw err;
+    },
+  ).finally(() => {
+    if (requestId !== undefined) chunkSinks.get(connection)?.delete(requestId);
+    done = true;
+    wake?.();
+  });
+  // Errors surface through iteration or `result`
+  result.catch(() => {});
+
+  return {
+    result,
+    streaming,
+    missing,
+    async *[Symbol.asyncIterator]() {
+      for (;;) {
+        if (queue.length > 0) {
+          yield queue.shift()!;
+          continue;
+        }
+        if (failure) throw failure;
+        if (done) return;
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = undefined;
+      }
+    },
+  };
+}
+
+function sinksFor(connection: McplConnection): Map<number, (chunk: InferenceChunkParams) => void> {
+  let sinks = chunkSinks.get(connection);
+  if (!sinks) {
+    const map = new Map<number, (chunk: InferenceChunkParams) => void>();
+    connection.onNotification(method.INFERENCE_CHUNK, (chunk) => map.get(chunk.requestId)?.(chunk));
+    chunkSinks.set(connection, map);
+    sinks = map;
+  }
+  return sinks;
+}
+
+// ── Helpers ──
+
+function validateRequest(params: InferenceRequestParams): void {
+  const fail = (message: string): never => {
+    throw new RpcError(ERR_INVALID_PARAMS, message);
+  };
+
+  if (typeof params?.featureSet !== 'string') fail('featureSet must be a string');
+  if (!Array.isArray(params.messages) || params.messages.length === 0) fail('messages must be a non-empty array');
+  params.messages.forEach((m, i) => {
+    if (typeof m?.role !== 'string' || typeof m.content !== 'string') {
+      fail(`messages[${i}] must have string role and content`);
+    }
+  });
+
+  const prefs = params.preferences;
+  if (prefs === undefined) return;
+  if (typeof prefs !== 'object' || prefs === null) fail('preferences must be an object');
+  if (prefs.maxTokens !== undefined && !(Number.isInteger(prefs.maxTokens) && prefs.maxTokens > 0)) {
+    fail('preferences.maxTokens must be a positive integer');
+  }
+  if (prefs.temperature !== undefined && !(typeof prefs.temperature === 'number' && prefs.temperature >= 0)) {
+    fail('preferences.temperature must be a non-negative number');
+  }
+}
+
+function definedOnly(prefs: InferencePreferences): InferencePreferences {
+  const out: InferencePreferences = {};
+  if (prefs.maxTokens !== undefined) out.maxTokens = prefs.maxTokens;
+  if (prefs.temperature !== undefined) out.temperature = prefs.temperature;
+  return out;
+}
+
+function countWords(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
@@ -5,7 +5,32 @@
  * Property names use camelCase matching the JSON wire format.
  */
 
-import type { ContentBlock } from './types.js';
+import type { ContentBlock, JsonRpcId } from './types.js';
+import type { McplInitializeParams, McplInitializeResult } from './capabilities.js';
+
+// ── MCP Base Protocol ──
+
+/** notifications/cancelled (Either direction, Notification) */
+export interface CancelledParams {
+  requestId: JsonRpcId;
+  reason?: string;
+}
+
+export type ProgressToken = string | number;
+
+/** `_meta` object carried in request params. */
+export interface RequestMeta {
+  progressToken?: ProgressToken;
+  [key: string]: unknown;
+}
+
+/** notifications/progress (Either direction, Notification) */
+export interface ProgressParams {
+  progressToken: ProgressToken;
+  progress: number;
+  total?: number;
+  message?: string;
+}
 
 // ── Feature Sets (Section 6) ──
 
@@ -228,6 +253,9 @@ export interface ChannelsRegisterParams {
   channels: ChannelDescriptor[];
 }
 
+/** Result of methods that acknowledge with an empty object (e.g. channels/register). */
+export type EmptyResult = Record<string, never>;
+
 /** channels/changed (Server → Host, Notification) */
 export interface ChannelsChangedParams {
   added?: ChannelDescriptor[];
@@ -324,6 +352,9 @@ export interface IncomingMessageResult {
 
 export const method = {
   INITIALIZE: 'initialize',
+  INITIALIZED: 'notifications/initialized',
+  CANCELLED: 'notifications/cancelled',
+  PROGRESS: 'notifications/progress',
   FEATURE_SETS_UPDATE: 'featureSets/update',
   FEATURE_SETS_CHANGED: 'featureSets/changed',
   SCOPE_ELEVATE: 'scope/elevate',
@@ -344,3 +375,73 @@ export const method = {
   CHANNELS_PUBLISH: 'channels/publish',
   CHANNELS_INCOMING: 'channels/incoming',
 } as const;
+
+// ── Typed Method Map ──
+
+/** Which side sends a method. */
+export type MethodDirection = 'hostToServer' | 'serverToHost' | 'both';
+
+/** Whether a method is sent as a request, a notification, or either. */
+export type MethodKind = 'request' | 'notification';
+
+export interface MethodSpec<P, R, K extends MethodKind, D extends MethodDirection> {
+  params: P;
+  result: R;
+  kind: K;
+  direction: D;
+}
+
+/**
+ * Ties every method name in `method` to its params, result, kind and direction.
+ * Drives type inference for `McplConnection.sendRequest()`, `sendNotification()`,
+ * `handle()` and `onNotification()`.
+ */
+export interface McplMethodMap {
+  [method.INITIALIZE]: MethodSpec<McplInitializeParams, McplInitializeResult, 'request', 'hostToServer'>;
+  [method.INITIALIZED]: MethodSpec<undefined, void, 'notification', 'hostToServer'>;
+  [method.CANCELLED]: MethodSpec<CancelledParams, void, 'notification', 'both'>;
+  [method.PROGRESS]: MethodSpec<ProgressParams, void, 'notification', 'both'>;
+  [method.FEATURE_SETS_UPDATE]: MethodSpec<FeatureSetsUpdateParams, void, 'notification', 'hostToServer'>;
+  [method.FEATURE_SETS_CHANGED]: MethodSpec<FeatureSetsChangedParams, void, 'notification', 'serverToHost'>;
+  [method.SCOPE_ELEVATE]: MethodSpec<ScopeElevateParams, ScopeElevateResult, 'request', 'serverToHost'>;
+  [method.STATE_ROLLBACK]: MethodSpec<StateRollbackParams, StateRollbackResult, 'request', 'hostToServer'>;
+  [method.PUSH_EVENT]: MethodSpec<PushEventParams, PushEventResult, 'request', 'serverToHost'>;
+  [method.CONTEXT_BEFORE_INFERENCE]: MethodSpec<ContextBeforeInferenceParams, ContextBeforeInferenceResult, 'request', 'hostToServer'>;
+  [method.CONTEXT_AFTER_INFERENCE]: MethodSpec<ContextAfterInferenceParams, ContextAfterInferenceResult, MethodKind, 'hostToServer'>;
+  [method.INFERENCE_REQUEST]: MethodSpec<InferenceRequestParams, InferenceRequestResult, 'request', 'serverToHost'>;
+  [method.INFERENCE_CHUNK]: MethodSpec<InferenceChunkParams, void, 'notification', 'hostToServer'>;
+  [method.MODEL_INFO]: MethodSpec<undefined, ModelInfoResult, 'request', 'serverToHost'>;
+  [method.CHANNELS_REGISTER]: MethodSpec<ChannelsRegisterParams, EmptyResult, 'request', 'serverToHost'>;
+  [method.CHANNELS_CHANGED]: MethodSpec<ChannelsChangedParams, void, 'notification', 'serverToHost'>;
+  [method.CHANNELS_LIST]: MethodSpec<undefined, ChannelsListResult, 'request', 'both'>;
+  [method.CHANNELS_OPEN]: MethodSpec<ChannelsOpenParams, ChannelsOpenResult, 'request', 'hostToServer'>;
+  [method.CHANNELS_CLOSE]: MethodSpec<ChannelsCloseParams, ChannelsCloseResult, 'request', 'hostToServer'>;
+  [method.CHANNELS_OUTGOING_CHUNK]: MethodSpec<ChannelsOutgoingChunkParams, void, 'notification', 'hostToServer'>;
+  [method.CHANNELS_OUTGOING_COMPLETE]: MethodSpec<ChannelsOutgoingCompleteParams, void, 'notification', 'hostToServer'>;
+  [method.CHANNELS_PUBLISH]: MethodSpec<ChannelsPublishParams, ChannelsPublishResult, MethodKind, 'hostToServer'>;
+  [method.CHANNELS_INCOMING]: MethodSpec<ChannelsIncomingParams, ChannelsIncomingResult, 'request', 'serverToHost'>;
+}
+
+export type McplMethod = keyof McplMethodMap;
+
+/** Methods that may be sent as a request. */
+export type McplRequestMethod = {
+  [M in McplMethod]: 'request' extends McplMethodMap[M]['kind'] ? M : never;
+}[McplMethod];
+
+/** Methods that may be sent as a notification. */
+export type McplNotificationMethod = {
+  [M in McplMethod]: 'notification' extends McplMethodMap[M]['kind'] ? M : never;
+}[McplMethod];
+
+/** Params type for a method name; `unknown` for methods outside the map. */
+export type McplParams<M extends string> = M extends McplMethod ? McplMethodMap[M]['params'] : unknown;
+
+/** Result type for a method name; `unknown` for methods outside the map. */
+export type McplResult<M extends string> = M extends McplMethod ? McplMethodMap[M]['result'] : unknown;
+
+/** Accepts known request methods and any method outside the map. */
+export type RequestMethodName<M extends string> = M extends McplMethod ? (M extends McplRequestMethod ? M : never) : M;
+
+/** Accepts known notification methods and any method outside the map. */
+export type NotificationMethodName<M extends string> = M extends McplMethod ? (M extends McplNotificationMethod ? M : never) : M;
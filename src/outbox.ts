@@ -0,0 +1,245 @@
+/**
+ * Server-side outbox for `push/event` (MCPL Section 9).
+ *
+ * A `PushEventOutbox` queues outgoing events and sends them, oldest first,
+ * whenever a connection is attached. An event leaves the queue only once the
+ * host has answered it with a `PushEventResult` (accepted or not); errors and
+ * timeouts are retried with exponential backoff, and a dropped connection
+ * pauses the queue until the next `attach()`. Attached to a session, events
+ * go through its capability check; if `push/event` was not negotiated the
+ * queue pauses with a `paused` event instead of retrying.
+ *
+ * With `file` set, the queue is written to disk on every change so events
+ * survive a restart. Entries older than `maxAge` expire; beyond `maxEntries`
+ * the oldest are dropped.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+import type { McplConnection } from './connection.js';
+import { McplSession } from './session.js';
+import { CapabilityError } from './errors.js';
+import { method } from './methods.js';
+import type { PushEventParams, PushEventResult } from './methods.js';
+import { backoffDelay, RetryWait } from './backoff.js';
+import type { BackoffOptions } from './backoff.js';
+import { writeFileAtomic } from './files.js';
+import { typedEmitter } from './emitter.js';
+
+// ── Public Types ──
+
+export interface PushEventOutboxOptions {
+  /** JSON file to persist the queue to. Without it the queue is in memory only. */
+  file?: string;
+  /** Drop the oldest entries beyond this many. Defaults to unbounded. */
+  maxEntries?: number;
+  /** Expire entries older than this (ms). Defaults to never. */
+  maxAge?: number;
+  /** Timeout (ms) for each `push/event` request. Defaults to 30000. */
+  requestTimeout?: number;
+  backoff?: BackoffOptions;
+  /** Clock, for tests. */
+  now?: () => number;
+}
+
+/** An event to queue. `eventId` and `timestamp` are filled in if omitted. */
+export type OutgoingPushEvent = Omit<PushEventParams, 'eventId' | 'timestamp'> &
+  Partial<Pick<PushEventParams, 'eventId' | 'timestamp'>>;
+
+export interface PushEventOutboxEvents {
+  delivered: [event: PushEventParams, result: PushEventResult];
+  /** A send failed; it will be retried after `delay` ms. */
+  retry: [event: PushEventParams, error: Error, delay: number];
+  expired: [event: PushEventParams];
+  /** Dropped to stay within `maxEntries`. */
+  dropped: [event: PushEventParams];
+  /** Writing the queue to `file` failed while sending; the next change writes it again. */
+  saveFailed: [error: Error];
+  /** The attached session can't send `push/event`; sending resumes on the next `attach()`. */
+  paused: [error: CapabilityError];
+}
+
+interface OutboxEntry {
+  event: PushEventParams;
+  queuedAt: number;
+}
+
+interface OutboxFile {
+  version: 1;
+  entries: OutboxEntry[];
+}
+
+// ── Outbox ──
+
+export class PushEventOutbox extends typedEmitter<PushEventOutboxEvents>() {
+  private options: PushEventOutboxOptions;
+  private now: () => number;
+  private entries: OutboxEntry[] = [];
+  private connection: McplConnection | undefined;
+  /** What events are sent through: the attached session, or the bare connection. */
+  private sender: McplConnection | McplSession | undefined;
+  private detach: (() => void) | undefined;
+  private pumping = false;
+  private attempts = 0;
+  private wait = new RetryWait();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: PushEventOutboxOptions = {}) {
+    super();
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Create an outbox and load queued events from `file`, if any. */
+  static async load(options: PushEventOutboxOptions = {}): Promise<PushEventOutbox> {
+    const outbox = new PushEventOutbox(options);
+    await outbox.loadFile();
+    return outbox;
+  }
+
+  /** Events waiting to be delivered, oldest first. */
+  get pending(): PushEventParams[] {
+    return this.entries.map((e) => e.event);
+  }
+
+  /** Queue an event and start sending if connected. Resolves once it is persisted. */
+  async push(event: OutgoingPushEvent): Promise<PushEventParams> {
+    const now = this.now();
+    const params: PushEventParams = {
+      ...event,
+      eventId: event.eventId ?? `evt_${randomUUID()}`,
+      timestamp: event.timestamp ?? new Date(now).toISOString(),
+    };
+    this.entries.push({ event: params, queuedAt: now });
+
+    const max = this.options.maxEntries ?? Infinity;
+    while (this.entries.length > max) {
+      this.emit('dropped', this.entries.shift()!.event);
+    }
+
+    await this.save();
+    void this.pump();
+    return params;
+  }
+
+  /**
+   * Send queued events over an initialized session or connection, replacing
+   * any previous one. Sending pauses when it closes.
+   */
+  attach(target: McplConnection | McplSession): void {
+    const connection = target instanceof McplSession ? target.connection : target;
+    this.detach?.();
+
+    const onClose = () => {
+      if (this.connection === connection) this.detachConnection();
+    };
+    connection.once('close', onClose);
+    this.connection = connection;
+    this.sender = target;
+    this.detach = () => connection.removeListener('close', onClose);
+    this.attempts = 0;
+
+    this.wait.cancel();
+    void this.pump();
+  }
+
+  /** Stop sending and wait for pending writes to finish. Queued events are kept. */
+  async close(): Promise<void> {
+    this.detachConnection();
+    await this.saving;
+  }
+
+  // ── Internal ──
+
+  private detachConnection(): void {
+    this.detach?.();
+    this.detach = undefined;
+    this.connection = undefined;
+    this.sender = undefined;
+    this.wait.cancel();
+  }
+
+  private async pump(): Promise<void> {
+    if (this.pumping) return;
+    this.pumping = true;
+    try {
+      while (this.connection && this.sender && !this.connection.isClosed) {
+        await this.expireOld();
+        const entry = this.entries[0];
+        if (!entry) break;
+
+        let result: PushEventResult;
+        try {
+          result = await this.sender.sendRequest(method.PUSH_EVENT, entry.event, this.options.requestTimeout ?? 30_000);
+        } catch (err) {
+          // Retrying can't help without the capability; wait for another attach()
+          if (err instanceof CapabilityError) {
+            this.detachConnection();
+            this.emit('paused', err);
+            break;
+          }
+          // A closed connection just pauses the queue until the next attach()
+          if (!this.connection || this.connection.isClosed) continue;
+          const delay = backoffDelay(this.options.backoff, this.attempts++);
+          this.emit('retry', entry.event, err as Error, delay);
+          await this.wait.sleep(delay);
+          continue;
+        }
+
+        this.attempts = 0;
+        this.entries = this.entries.filter((e) => e !== entry);
+        await this.persist();
+        this.emit('delivered', entry.event, result);
+      }
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  private async expireOld(): Promise<void> {
+    if (this.options.maxAge === undefined) return;
+    const cutoff = this.now() - this.options.maxAge;
+    const expired = this.entries.filter((e) => e.queuedAt < cutoff);
+    if (expired.length === 0) return;
+    this.entries = this.entries.filter((e) => e.queuedAt >= cutoff);
+    await this.persist();
+    for (const entry of expired) this.emit('expired', entry.event);
+  }
+
+  /** `save()` for the send loop, which has no caller to reject: failures become `saveFailed` events. */
+  private async persist(): Promise<void> {
+    try {
+      await this.save();
+    } catch (err) {
+      this.emit('saveFailed', err as Error);
+    }
+  }
+
+  /** Write the queue to `file`. Writes are serialized so the last one wins. */
+  private save(): Promise<void> {
+    const path = this.options.file;
+    if (!path) return Promise.resolve();
+
+    const file: OutboxFile = { version: 1, entries: this.entries.slice() };
+    this.saving = writeFileAtomic(path, JSON.stringify(file) + '\n');
+    return this.saving;
+  }
+
+  private async loadFile(): Promise<void> {
+    const path = this.options.file;
+    if (!path) return;
+
+    let text: string;
+    try {
+      text = await readFile(path, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw err;
+    }
+
+    const file = JSON.parse(text) as OutboxFile;
+    this.entries = file.entries ?? [];
+    await this.expireOld();
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * JSON Patch (RFC 6902) for host-managed state (MCPL Section 8.3).
+ *
+ * `applyPatch()` applies all operations or none: it works on a copy and
+ * throws `JsonPatchError` on the first failure, leaving the input untouched.
+ * `diff()` produces a patch that turns one document into another.
+ * Paths are JSON Pointers (RFC 6901), with `~0` and `~1` escaping `~` and `/`.
+ */
+
+import type { JsonPatchOperation } from './methods.js';
+import { JsonPatchError } from './errors.js';
+
+// ── JSON Pointer ──
+
+/** Split a JSON Pointer into unescaped reference tokens. `''` is the whole document. */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new SyntaxError(`Invalid JSON Pointer: ${JSON.stringify(pointer)}`);
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => {
+      if (/~[^01]|~$/.test(token)) throw new SyntaxError(`Invalid escape in JSON Pointer: ${JSON.stringify(pointer)}`);
+      return token.replace(/~1/g, '/').replace(/~0/g, '~');
+    });
+}
+
+/** Build a JSON Pointer from reference tokens. */
+export function formatPointer(tokens: Array<string | number>): string {
+  return tokens.map((t) => '/' + String(t).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+// ── Apply ──
+
+/** Apply a patch and return the patched document. Throws `JsonPatchError` without modifying `document`. */
+export function applyPatch<T = unknown>(document: T, patch: JsonPatchOperation[]): T {
+  const holder = { root: clone(document) as unknown };
+
+  patch.forEach((operation, index) => {
+    try {
+      applyOperation(holder, operation);
+    } catch (err) {
+      if (err instanceof JsonPatchError) throw err;
+      throw new JsonPatchError((err as Error).message, index, operation);
+    }
+  });
+
+  return holder.root as T;
+}
+
+function applyOperation(holder: { root: unknown }, operation: JsonPatchOperation): void {
+  const path = parsePointer(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      add(holder, path, clone(requireValue(operation)));
+      return;
+    case 'remove':
+      remove(holder, path);
+      return;
+    case 'replace':
+      requireValue(operation);
+      remove(holder, path);
+      add(holder, path, clone(operation.value));
+      return;
+    case 'move': {
+      const from = parsePointer(requireFrom(operation));
+      if (from.length < path.length && from.every((token, i) => token === path[i])) {
+        throw new Error('Cannot move a value into one of its own children');
+      }
+      const value = remove(holder, from);
+      add(holder, path, value);
+      return;
+    }
+    case 'copy': {
+      const from = parsePointer(requireFrom(operation));
+      add(holder, path, clone(get(holder.root, from)));
+      return;
+    }
+    case 'test':
+      if (!deepEqual(get(holder.root, path), requireValue(operation))) {
+        throw new Error('Test failed: value does not match');
+      }
+      return;
+    default:
+      throw new Error(`Unknown operation: ${String((operation as { op: unknown }).op)}`);
+  }
+}
+
+function add(holder: { root: unknown }, path: string[], value: unknown): void {
+  if (path.length === 0) {
+    holder.root = value;
+    return;
+  }
+  const parent = get(holder.root, path.slice(0, -1));
+  const key = path[path.length - 1];
+
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : arrayIndex(key);
+    if (index > parent.length) throw new Error(`Array index ${index} out of bounds`);
+    parent.splice(index, 0, value);
+  } else if (isObject(parent)) {
+    setOwn(parent, key, value);
+  } else {
+    throw new Error('Parent is not an object or array');
+  }
+}
+
+/** Remove the value at `path` and return it. */
+function remove(holder: { root: unknown }, path: string[]): unknown {
+  if (path.length === 0) {
+    const value = holder.root;
+    holder.root = undefined;
+    return value;
+  }
+  const parent = get(holder.root, path.slice(0, -1));
+  const key = path[path.length - 1];
+
+  if (Array.isArray(parent)) {
+    const index = arrayIndex(key);
+    if (index >= parent.length) throw new Error(`Array index ${index} out of bounds`);
+    return parent.splice(index, 1)[0];
+  }
+  if (isObject(parent) && Object.hasOwn(parent, key)) {
+    const value = parent[key];
+    delete parent[key];
+    return value;
+  }
+  throw new Error(`Path not found: ${formatPointer(path)}`);
+}
+
+function get(root: unknown, path: string[]): unknown {
+  let current = root;
+  for (const key of path) {
+    if (Array.isArray(current)) {
+      const index = arrayIndex(key);
+      if (index >= current.length) throw new Error(`Path not found: ${formatPointer(path)}`);
+      current = current[index];
+    } else if (isObject(current) && Object.hasOwn(current, key)) {
+      current = current[key];
+    } else {
+      throw new Error(`Path not found: ${formatPointer(path)}`);
+    }
+  }
+  return current;
+}
+
+function arrayIndex(token: string): number {
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) throw new Error(`Invalid array index: ${JSON.stringify(token)}`);
+  return Number(token);
+}
+
+function requireValue(operation: JsonPatchOperation): unknown {
+  if (!('value' in operation)) throw new Error('Missing "value"');
+  return operation.value;
+}
+
+function requireFrom(operation: JsonPatchOperation): string {
+  if (typeof operation.from !== 'string') throw new Error('Missing "from"');
+  return operation.from;
+}
+
+// ── Diff ──
+
+/** Compute a patch that transforms `a` into `b`. */
+export function diff(a: unknown, b: unknown): JsonPatchOperation[] {
+  const ops: JsonPatchOperation[] = [];
+  diffInto(a, b, [], ops);
+  return ops;
+}
+
+function diffInto(a: unknown, b: unknown, path: string[], ops: JsonPatchOperation[]): void {
+  if (deepEqual(a, b)) return;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const common = Math.min(a.length, b.length);
+    for (let i = 0; i < common; i++) diffInto(a[i], b[i], [...path, String(i)], ops);
+    for (let i = common; i < b.length; i++) {
+      ops.push({ op: 'add', path: formatPointer([...path, '-']), value: clone(b[i]) });
+    }
+    // Remove from the end so earlier indices stay valid
+    for (let i = a.length - 1; i >= common; i--) {
+      ops.push({ op: 'remove', path: formatPointer([...path, String(i)]) });
+    }
+    return;
+  }
+
+  if (isObject(a) && isObject(b)) {
+    for (const key of Object.keys(a)) {
+      if (!Object.hasOwn(b, key)) ops.push({ op: 'remove', path: formatPointer([...path, key]) });
+    }
+    for (const key of Object.keys(b)) {
+      if (Object.hasOwn(a, key)) diffInto(a[key], b[key], [...path, key], ops);
+      else ops.push({ op: 'add', path: formatPointer([...path, key]), value: clone(b[key]) });
+    }
+    return;
+  }
+
+  ops.push({ op: 'replace', path: formatPointer(path), value: clone(b) });
+}
+
+// ── Helpers ──
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Assign an own property, even for keys like `__proto__`. */
+function setOwn(target: JsonObject, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isObject(value)) {
+    const out: JsonObject = {};
+    for (const key of Object.keys(value)) setOwn(out, key, clone(value[key]));
+    return out as T;
+  }
+  return value;
+}
+
+/** Structural equality of JSON values (object key order is ignored). */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a)) {
+    return Array.isArray(b) && a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    return keys.every((key) => Object.hasOwn(b, key) && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
@@ -0,0 +1,338 @@
+/**
+ * Host-side connection that survives network drops.
+ *
+ * A `ReconnectingMcplConnection` owns a `McplClientSession` and, when its
+ * connection closes, re-dials with exponential backoff and re-runs
+ * `initialize`. Before traffic resumes it restores what the server lost with
+ * the old connection:
+ *   - request and notification handlers registered through the wrapper
+ *   - the feature set state sent through the wrapper with `featureSets/update`
+ *   - channels opened through the wrapper with `channels/open`
+ *
+ * Requests in flight when the connection drops reject with
+ * `ConnectionClosedError`, unless they were sent with `idempotent: true` and
+ * `retryIdempotent` is on; those wait for the next session and are re-sent.
+ */
+
+import * as net from 'node:net';
+
+import { McplConnection } from './connection.js';
+import type {
+  McplConnectionOptions,
+  NotificationHandler,
+  RequestHandler,
+  RequestOptions,
+} from './connection.js';
+import { McplClientSession } from './session.js';
+import type { ClientSessionOptions } from './session.js';
+import { method } from './methods.js';
+import type {
+  ChannelDescriptor,
+  ChannelsOpenParams,
+  FeatureSetsUpdateParams,
+  McplParams,
+  McplResult,
+  NotificationMethodName,
+  RequestMethodName,
+} from './methods.js';
+import { backoffDelay, RetryWait } from './backoff.js';
+import type { BackoffOptions } from './backoff.js';
+import { ConnectionClosedError } from './errors.js';
+import { typedEmitter } from './emitter.js';
+
+// ── Public Types ──
+
+export interface ReconnectOptions extends ClientSessionOptions {
+  /** Open a fresh transport. Called for the first connection and every retry. */
+  dial: () => Promise<McplConnection>;
+  backoff?: BackoffOptions;
+  /** Give up after this many failed reconnect attempts in a row. Defaults to unlimited. */
+  maxAttempts?: number;
+  /** Re-send in-flight requests marked `idempotent` after reconnecting. Defaults to true. */
+  retryIdempotent?: boolean;
+}
+
+export interface ReconnectRequestOptions extends RequestOptions {
+  /** Safe to send again if the connection drops before the response arrives. */
+  idempotent?: boolean;
+}
+
+export interface ReconnectingMcplConnectionEvents {
+  /** The connection closed; a reconnect is about to start. */
+  disconnected: [error: Error | undefined];
+  /** Waiting `delay` ms before reconnect attempt `attempt` (1-based). */
+  reconnecting: [attempt: number, delay: number];
+  reconnected: [session: McplClientSession];
+  /** `maxAttempts` was reached; the wrapper is closed. */
+  gaveUp: [error: Error];
+  close: [];
+}
+
+interface OpenChannel {
+  params: ChannelsOpenParams;
+  descriptor: ChannelDescriptor;
+}
+
+// ── Wrapper ──
+
+export class ReconnectingMcplConnection extends typedEmitter<ReconnectingMcplConnectionEvents>() {
+  private options: ReconnectOptions;
+  private current: McplClientSession | undefined;
+  private closed = false;
+  private lastError: Error | undefined;
+  private requestHandlers = new Map<string, RequestHandler>();
+  private notificationHandlers = new Map<string, NotificationHandler>();
+  private featureSetsUpdate: FeatureSetsUpdateParams | undefined;
+  private channels = new Map<string, OpenChannel>();
+  private sessionWaiters: Array<{ resolve: (s: McplClientSession) => void; reject: (err: Error) => void }> = [];
+  private wait = new RetryWait();
+
+  private constructor(options: ReconnectOptions) {
+    super();
+    this.options = options;
+  }
+
+  // ── Factories ──
+
+  /** Dial and initialize the first session. Rejects if that first attempt fails. */
+  static async connect(options: ReconnectOptions): Promise<ReconnectingMcplConnection> {
+    const wrapper = new ReconnectingMcplConnection(options);
+    await wrapper.establish();
+    return wrapper;
+  }
+
+  /** Connect to a TCP server, reconnecting to the same address. */
+  static tcp(
+    port: number,
+    host: string,
+    options: Omit<ReconnectOptions, 'dial'> & { connection?: McplConnectionOptions },
+  ): Promise<ReconnectingMcplConnection> {
+    const dial = () =>
+      new Promise<McplConnection>((resolve, reject) => {
+        const socket = net.connect({ port, host });
+        socket.once('error', reject);
+        socket.once('connect', () => {
+          socket.removeListener('error', reject);
+          resolve(McplConnection.fromTcp(socket, options.connection));
+        });
+      });
+    return ReconnectingMcplConnection.connect({ ...options, dial });
+  }
+
+  // ── Public API ──
+
+  /** The live session, or undefined while reconnecting. */
+  get session(): McplClientSession | undefined {
+    return this.current;
+  }
+
+  get isConnected(): boolean {
+    return this.current !== undefined;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /** Channels opened through this wrapper, re-opened after each reconnect. */
+  get openChannels(): ChannelDescriptor[] {
+    return [...this.channels.values()].map((c) => c.descriptor);
+  }
+
+  /**
+   * Send a request on the current session. While disconnected, idempotent
+   * requests wait for the next session; others reject with
+   * `ConnectionClosedError`.
+   */
+  async sendRequest<M extends string>(
+    methodName: RequestMethodName<M>,
+    params?: McplParams<M>,
+    options: number | ReconnectRequestOptions = {},
+  ): Promise<McplResult<M>> {
+    const { idempotent = false, ...requestOptions } = typeof options === 'number' ? { timeout: options } : options;
+    const retry = idempotent && (this.options.retryIdempotent ?? true);
+
+    for (;;) {
+      const session = this.current ?? (retry ? await this.nextSession() : undefined);
+      if (!session) throw new ConnectionClosedError();
+
+      let result: McplResult<M>;
+      try {
+        result = await session.sendRequest(methodName, params, requestOptions);
+      } catch (err) {
+        if (retry && err instanceof ConnectionClosedError && !this.closed) continue;
+        throw err;
+      }
+
+      this.trackChannels(methodName, params, result);
+      return result;
+    }
+  }
+
+  /**
+   * Send a notification on the current session. `featureSets/update` changes
+   * are accumulated (and re-sent after reconnecting), even while disconnected.
+   */
+  sendNotification<M extends string>(methodName: NotificationMethodName<M>, params?: McplParams<M>): void {
+    if (methodName === method.FEATURE_SETS_UPDATE) {
+      this.featureSetsUpdate = mergeUpdate(this.featureSetsUpdate, params as FeatureSetsUpdateParams);
+      if (!this.current) return;
+    }
+    if (!this.current) throw new ConnectionClosedError();
+    this.current.sendNotification(methodName, params);
+  }
+
+  /** Register a request handler on this and every future connection. */
+  handle<M extends string>(
+    methodName: RequestMethodName<M>,
+    handler: RequestHandler<McplParams<M>, McplResult<M>>,
+  ): void {
+    this.requestHandlers.set(methodName, handler as RequestHandler);
+    this.current?.handle(methodName, handler);
+  }
+
+  /** Register a notification handler on this and every future connection. */
+  onNotification<M extends string>(
+    methodName: NotificationMethodName<M>,
+    handler: NotificationHandler<McplParams<M>>,
+  ): void {
+    this.notificationHandlers.set(methodName, handler as NotificationHandler);
+    this.current?.onNotification(methodName, handler);
+  }
+
+  /** Close for good: stop reconnecting and close the current connection. */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.wait.cancel();
+    const session = this.current;
+    this.current = undefined;
+    session?.close();
+    this.rejectWaiters(new ConnectionClosedError());
+    this.emit('close');
+  }
+
+  // ── Internal ──
+
+  /** Dial, initialize and restore state. Becomes the current session on success. */
+  private async establish(): Promise<McplClientSession> {
+    const connection = await this.options.dial();
+    connection.on('error', (err) => {
+      this.lastError = err;
+    });
+
+    try {
+      for (const [name, handler] of this.requestHandlers) connection.handle(name, handler);
+      for (const [name, handler] of this.notificationHandlers) connection.onNotification(name, handler);
+
+      const session = await McplClientSession.initialize(connection, this.options);
+
+      if (this.featureSetsUpdate) {
+        connection.sendNotification(method.FEATURE_SETS_UPDATE, this.featureSetsUpdate);
+      }
+      const channels = await this.reopenChannels(session);
+
+      if (this.closed || connection.isClosed) throw new ConnectionClosedError();
+
+      this.channels = channels;
+      this.current = session;
+      this.lastError = undefined;
+      connection.once('close', () => this.onDisconnect(session));
+      for (const waiter of this.sessionWaiters.splice(0)) waiter.resolve(session);
+      return session;
+    } catch (err) {
+      connection.close();
+      throw err;
+    }
+  }
+
+  private onDisconnect(session: McplClientSession): void {
+    if (this.current !== session) return;
+    this.current = undefined;
+    if (this.closed) return;
+    this.emit('disconnected', this.lastError);
+    void this.reconnect();
+  }
+
+  private async reconnect(): Promise<void> {
+    const maxAttempts = this.options.maxAttempts ?? Infinity;
+    let lastError: Error = new ConnectionClosedError();
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const delay = backoffDelay(this.options.backoff, attempt - 1);
+      this.emit('reconnecting', attempt, delay);
+      await this.wait.sleep(delay);
+      if (this.closed) return;
+
+      try {
+        const session = await this.establish();
+        this.emit('reconnected', session);
+        return;
+      } catch (err) {
+        if (this.closed) return;
+        lastError = err as Error;
+      }
+    }
+
+    this.emit('gaveUp', lastError);
+    this.close();
+  }
+
+  /**
+   * Re-open the tracked channels on a new session. The result replaces
+   * `channels` only once the whole restore succeeds, so a failed attempt
+   * leaves the full set for the next one.
+   */
+  private async reopenChannels(session: McplClientSession): Promise<Map<string, OpenChannel>> {
+    const restored = new Map<string, OpenChannel>();
+    if (!session.isAllowed(method.CHANNELS_OPEN)) return restored;
+    for (const { params } of this.channels.values()) {
+      const { channel } = await session.sendRequest(method.CHANNELS_OPEN, params);
+      restored.set(channel.id, { params, descriptor: channel });
+    }
+    return restored;
+  }
+
+  private trackChannels(methodName: string, params: unknown, result: unknown): void {
+    if (methodName === method.CHANNELS_OPEN) {
+      const { channel } = result as { channel: ChannelDescriptor };
+      this.channels.set(channel.id, { params: params as ChannelsOpenParams, descriptor: channel });
+    } else if (methodName === method.CHANNELS_CLOSE) {
+      this.channels.delete((params as { channelId: string }).channelId);
+    }
+  }
+
+  private nextSession(): Promise<McplClientSession> {
+    if (this.closed) return Promise.reject(new ConnectionClosedError());
+    return new Promise((resolve, reject) => this.sessionWaiters.push({ resolve, reject }));
+  }
+
+  private rejectWaiters(err: Error): void {
+    for (const waiter of this.sessionWaiters.splice(0)) waiter.reject(err);
+  }
+}
+
+// ── Helpers ──
+
+/** Fold a new `featureSets/update` into the accumulated one. */
+function mergeUpdate(
+  previous: FeatureSetsUpdateParams | undefined,
+  next: FeatureSetsUpdateParams,
+): FeatureSetsUpdateParams {
+  const enabled = new Set(previous?.enabled);
+  const disabled = new Set(previous?.disabled);
+  for (const name of next.enabled ?? []) {
+    enabled.add(name);
+    disabled.delete(name);
+  }
+  for (const name of next.disabled ?? []) {
+    disabled.add(name);
+    enabled.delete(name);
+  }
+  const merged: FeatureSetsUpdateParams = {};
+  if (enabled.size > 0) merged.enabled = [...enabled];
+  if (disabled.size > 0) merged.disabled = [...disabled];
+  const scopes = { ...previous?.scopes, ...next.scopes };
+  if (Object.keys(scopes).length > 0) merged.scopes = scopes;
+  return merged;
+}
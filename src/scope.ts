@@ -0,0 +1,82 @@
+/**
+ * Scope evaluation for `ScopeConfig` whitelists and blacklists (MCPL Section 7).
+ *
+ * Resources are plain strings (file paths, channel ids, URLs, ...). A pattern
+ * is either:
+ *   - a glob, if it contains `*` or `?`: `*` matches within one `/`-separated
+ *     segment, `**` matches across segments, `?` matches one character; or
+ *   - a prefix otherwise: it matches the resource itself and anything below it,
+ *     where "below" means the next character is a `/` or `:` separator (so
+ *     `src` covers `src/a.ts` but not `srcfoo`).
+ *
+ * Precedence: a blacklist match always denies; otherwise an empty or missing
+ * whitelist allows everything, and a non-empty one must match.
+ */
+
+import type { ScopeConfig } from './methods.js';
+
+const SEPARATORS = '/:';
+
+/** Whether a single scope pattern matches a resource. */
+export function matchesScopePattern(pattern: string, resource: string): boolean {
+  return compilePattern(pattern)(resource);
+}
+
+/** Evaluate a `ScopeConfig` against a resource. An undefined config allows everything. */
+export function isResourceInScope(config: ScopeConfig | undefined, resource: string): boolean {
+  return config ? new ScopeMatcher(config).allows(resource) : true;
+}
+
+/** A `ScopeConfig` with its patterns compiled once for repeated checks. */
+export class ScopeMatcher {
+  private whitelist: Array<(resource: string) => boolean>;
+  private blacklist: Array<(resource: string) => boolean>;
+
+  constructor(readonly config: ScopeConfig) {
+    this.whitelist = (config.whitelist ?? []).map(compilePattern);
+    this.blacklist = (config.blacklist ?? []).map(compilePattern);
+  }
+
+  allows(resource: string): boolean {
+    if (this.blacklist.some((match) => match(resource))) return false;
+    if (this.whitelist.length === 0) return true;
+    return this.whitelist.some((match) => match(resource));
+  }
+}
+
+// ── Pattern Compilation ──
+
+function compilePattern(pattern: string): (resource: string) => boolean {
+  if (!/[*?]/.test(pattern)) {
+    return (resource) => {
+      if (resource === pattern) return true;
+      if (!pattern || !resource.startsWith(pattern)) return false;
+      return SEPARATORS.includes(pattern[pattern.length - 1]) || SEPARATORS.includes(resource[pattern.length]);
+    };
+  }
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` also matches zero segments, so `a/**/b` covers `a/b`
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  const regex = new RegExp(`^${source}$`);
+  return (resource) => regex.test(resource);
+}
@@ -0,0 +1,182 @@
+/**
+ * Multi-connection MCPL listener for TCP ports and Unix domain sockets.
+ *
+ * Accepts clients in a loop and emits a fresh `McplConnection` for each one.
+ * Live connections are tracked so the server can enforce a client limit and
+ * shut down gracefully: stop accepting, give connections time to finish, then
+ * close whatever is left.
+ */
+
+import * as net from 'node:net';
+
+import { McplConnection } from './connection.js';
+import type { McplConnectionOptions } from './connection.js';
+import { typedEmitter } from './emitter.js';
+
+// ── Public Types ──
+
+export interface McplServerOptions extends McplConnectionOptions {
+  /** Maximum simultaneous connections. Extra clients are disconnected immediately. */
+  maxConnections?: number;
+}
+
+export type ListenTarget =
+  | { port: number; host?: string }
+  | { path: string };
+
+export interface McplServerCloseOptions {
+  /**
+   * How long (ms) to wait for connections to close on their own before
+   * closing them. 0 = close immediately.
+   */
+  drainTimeout?: number;
+}
+
+export interface McplServerEvents {
+  connection: [connection: McplConnection];
+  /** A client was turned away because `maxConnections` was reached. */
+  rejected: [socket: net.Socket];
+  error: [error: Error];
+  close: [];
+}
+
+// ── Server ──
+
+export class McplServer extends typedEmitter<McplServerEvents>() {
+  private server: net.Server;
+  private live = new Set<McplConnection>();
+  private options: McplServerOptions;
+  private closing: Promise<void> | undefined;
+  /** True while `listen()` is pending; bind errors reject it instead of being emitted. */
+  private binding = false;
+
+  constructor(options: McplServerOptions = {}) {
+    super();
+    this.options = options;
+    this.server = net.createServer((socket) => this.accept(socket));
+    this.server.on('error', (err) => {
+      if (!this.binding) this.emit('error', err);
+    });
+  }
+
+  // ── Factories ──
+
+  /** Create a server listening on a TCP port. Port 0 picks a free port. */
+  static async listenTcp(port: number, host?: string, options?: McplServerOptions): Promise<McplServer> {
+    const server = new McplServer(options);
+    await server.listen({ port, host });
+    return server;
+  }
+
+  /** Create a server listening on a Unix domain socket path. */
+  static async listenUnix(path: string, options?: McplServerOptions): Promise<McplServer> {
+    const server = new McplServer(options);
+    await server.listen({ path });
+    return server;
+  }
+
+  // ── Public API ──
+
+  /** Start listening. Resolves once the socket is bound; rejects if binding fails. */
+  listen(target: ListenTarget): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.binding = true;
+      const onError = (err: Error) => {
+        this.binding = false;
+        this.server.removeListener('listening', onListening);
+        reject(err);
+      };
+      const onListening = () => {
+        this.binding = false;
+        this.server.removeListener('error', onError);
+        resolve();
+      };
+      this.server.once('error', onError);
+      if ('path' in target) {
+        this.server.listen(target.path, onListening);
+      } else {
+        this.server.listen(target.port, target.host, onListening);
+      }
+    });
+  }
+
+  /** Bound address: `AddressInfo` for TCP, the socket path for Unix sockets. */
+  address(): net.AddressInfo | string | null {
+    return this.server.address();
+  }
+
+  get isListening(): boolean {
+    return this.server.listening;
+  }
+
+  /** Currently open connections. */
+  get connections(): ReadonlySet<McplConnection> {
+    return this.live;
+  }
+
+  /**
+   * Stop accepting clients and shut down. Open connections get up to
+   * `drainTimeout` ms to close on their own before they are closed.
+   */
+  close(options: McplServerCloseOptions = {}): Promise<void> {
+    if (this.closing) return this.closing;
+
+    this.closing = (async () => {
+      const stopped = new Promise<void>((resolve) => {
+        if (!this.server.listening) return resolve();
+        this.server.close(() => resolve());
+      });
+
+      const drainTimeout = options.drainTimeout ?? 0;
+      if (drainTimeout > 0 && this.live.size > 0) {
+        await this.waitForConnections(drainTimeout);
+      }
+
+      for (const conn of [...this.live]) {
+        conn.close();
+      }
+      this.live.clear();
+
+      await stopped;
+      this.emit('close');
+    })();
+
+    return this.closing;
+  }
+
+  // ── Internal ──
+
+  private accept(socket: net.Socket): void {
+    const max = this.options.maxConnections ?? Infinity;
+    if (this.closing || this.live.size >= max) {
+      socket.destroy();
+      this.emit('rejected', socket);
+      return;
+    }
+
+    const conn = McplConnection.fromTcp(socket, this.options);
+    this.live.add(conn);
+    conn.on('close', () => {
+      this.live.delete(conn);
+    });
+    this.emit('connection', conn);
+  }
+
+  /** Resolve when all connections have closed or the timeout elapses. */
+  private waitForConnections(timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(finish, timeoutMs);
+      const onClose = () => {
+        if (this.live.size === 0) finish();
+      };
+      const conns = [...this.live];
+      for (const conn of conns) conn.on('close', onClose);
+
+      function finish() {
+        clearTimeout(timer);
+        for (const conn of conns) conn.removeListener('close', onClose);
+        resolve();
+      }
+    });
+  }
+}
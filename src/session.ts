@@ -0,0 +1,280 @@
+/**
+ * MCPL sessions: an `McplConnection` that has completed the `initialize`
+ * handshake.
+ *
+ * The host side (MCP client) calls `McplClientSession.initialize()`; the
+ * server side calls `McplServerSession.acceptInitialize()`. Both check that
+ * the peer speaks a compatible MCP protocol version and MCPL version, and
+ * expose the negotiated capability view.
+ *
+ * Sessions enforce the negotiated capabilities in both directions: outgoing
+ * calls to methods whose capabilities weren't negotiated fail locally with
+ * `CapabilityError`, and such incoming requests are answered with
+ * `ERR_FEATURE_SET_NOT_ENABLED`.
+ */
+
+import type {
+  McplConnection,
+  NotificationHandler,
+  RequestHandler,
+  RequestOptions,
+} from './connection.js';
+import { method } from './methods.js';
+import type {
+  McplParams,
+  McplResult,
+  NotificationMethodName,
+  RequestMethodName,
+} from './methods.js';
+import type {
+  ImplementationInfo,
+  InitializeCapabilities,
+  McplCapabilities,
+  McplInitializeParams,
+  McplInitializeResult,
+  NegotiatedCapabilities,
+} from './capabilities.js';
+import {
+  MCP_PROTOCOL_VERSION,
+  extractMcpl,
+  isCompatibleMcplVersion,
+  missingCapabilities,
+  negotiateCapabilities,
+} from './capabilities.js';
+import { ERR_FEATURE_SET_NOT_ENABLED, ERR_INVALID_PARAMS, ERR_INVALID_REQUEST } from './types.js';
+import { CapabilityError, ConnectionClosedError, HandshakeError, RpcError } from './errors.js';
+
+// ── Options ──
+
+interface SessionOptions {
+  /** MCPL capabilities to advertise under `capabilities.experimental.mcpl`. */
+  capabilities: McplCapabilities;
+  /** Plain MCP capabilities (tools, resources, ...) to advertise alongside. */
+  mcpCapabilities?: Omit<InitializeCapabilities, 'experimental'>;
+  /** Supported MCP protocol versions, preferred first. Defaults to `[MCP_PROTOCOL_VERSION]`. */
+  protocolVersions?: string[];
+  /** Handshake timeout (ms). 0 = no timeout. Defaults to 30000. */
+  timeout?: number;
+}
+
+export interface ClientSessionOptions extends SessionOptions {
+  clientInfo: ImplementationInfo;
+}
+
+export interface ServerSessionOptions extends SessionOptions {
+  serverInfo: ImplementationInfo;
+}
+
+export type SessionRole = 'host' | 'server';
+
+// ── Session ──
+
+export abstract class McplSession {
+  abstract readonly role: SessionRole;
+
+  protected constructor(
+    readonly connection: McplConnection,
+    /** Agreed MCP protocol version. */
+    readonly protocolVersion: string,
+    readonly peerInfo: ImplementationInfo,
+    readonly localCapabilities: McplCapabilities,
+    readonly peerCapabilities: McplCapabilities,
+    /** Full capabilities object the peer sent, including plain MCP ones. */
+    readonly peerMcpCapabilities: InitializeCapabilities,
+    readonly negotiated: NegotiatedCapabilities,
+  ) {
+    connection.addGuard((msg) => {
+      const name = msg.type === 'request' ? msg.request.method : msg.notification.method;
+      const missing = missingCapabilities(this.negotiated, name);
+      if (missing.length === 0) return undefined;
+      return new RpcError(
+        ERR_FEATURE_SET_NOT_ENABLED,
+        `${name} requires capabilities that were not negotiated: ${missing.join(', ')}`,
+      );
+    });
+  }
+
+  /** Whether the negotiated capabilities allow a method (in either direction). */
+  isAllowed(methodName: string): boolean {
+    return missingCapabilities(this.negotiated, methodName).length === 0;
+  }
+
+  /** `McplConnection.sendRequest()`, refused with `CapabilityError` if not negotiated. */
+  async sendRequest<M extends string>(
+    methodName: RequestMethodName<M>,
+    params?: McplParams<M>,
+    options?: number | RequestOptions,
+  ): Promise<McplResult<M>> {
+    this.assertAllowed(methodName);
+    return this.connection.sendRequest(methodName, params, options);
+  }
+
+  /** `McplConnection.sendNotification()`, throws `CapabilityError` if not negotiated. */
+  sendNotification<M extends string>(methodName: NotificationMethodName<M>, params?: McplParams<M>): void {
+    this.assertAllowed(methodName);
+    this.connection.sendNotification(methodName, params);
+  }
+
+  /** `McplConnection.handle()`; requests that weren't negotiated never reach the handler. */
+  handle<M extends string>(
+    methodName: RequestMethodName<M>,
+    handler: RequestHandler<McplParams<M>, McplResult<M>>,
+  ): void {
+    this.connection.handle(methodName, handler);
+  }
+
+  /** `McplConnection.onNotification()`; notifications that weren't negotiated are dropped. */
+  onNotification<M extends string>(
+    methodName: NotificationMethodName<M>,
+    handler: NotificationHandler<McplParams<M>>,
+  ): void {
+    this.connection.onNotification(methodName, handler);
+  }
+
+  close(): void {
+    this.connection.close();
+  }
+
+  private assertAllowed(methodName: string): void {
+    const missing = missingCapabilities(this.negotiated, methodName);
+    if (missing.length > 0) throw new CapabilityError(methodName, missing);
+  }
+}
+
+/** Host side of a session (the MCP client that sends `initialize`). */
+export class McplClientSession extends McplSession {
+  readonly role = 'host';
+
+  /**
+   * Send `initialize`, validate the server's answer, and send
+   * `notifications/initialized`. Rejects with `HandshakeError` if the server
+   * picked an unsupported protocol version or an incompatible MCPL version;
+   * the connection is left open for the caller to close.
+   */
+  static async initialize(connection: McplConnection, options: ClientSessionOptions): Promise<McplClientSession> {
+    const protocolVersions = options.protocolVersions ?? [MCP_PROTOCOL_VERSION];
+
+    const params: McplInitializeParams = {
+      protocolVersion: protocolVersions[0],
+      capabilities: {
+        ...options.mcpCapabilities,
+        experimental: { mcpl: options.capabilities },
+      },
+      clientInfo: options.clientInfo,
+    };
+
+    const result = await connection.sendRequest(method.INITIALIZE, params, options.timeout ?? 30_000);
+
+    if (!protocolVersions.includes(result.protocolVersion)) {
+      throw new HandshakeError(
+        `Unsupported protocol version ${result.protocolVersion} (supported: ${protocolVersions.join(', ')})`,
+      );
+    }
+
+    const peer = extractMcpl(result.capabilities);
+    const problem = checkMcplVersion(options.capabilities, peer);
+    if (problem) throw new HandshakeError(problem);
+
+    connection.sendNotification(method.INITIALIZED);
+
+    return new McplClientSession(
+      connection,
+      result.protocolVersion,
+      result.serverInfo,
+      options.capabilities,
+      peer!,
+      result.capabilities,
+      negotiateCapabilities(options.capabilities, peer!),
+    );
+  }
+}
+
+/** Server side of a session (answers `initialize`). */
+export class McplServerSession extends McplSession {
+  readonly role = 'server';
+
+  /**
+   * Answer the peer's `initialize` and wait for `notifications/initialized`.
+   *
+   * If the requested protocol version is unsupported, the server answers with
+   * its preferred version and leaves the decision to the client (as in MCP).
+   * An incompatible or missing MCPL version is refused with -32602 and the
+   * returned promise rejects with `HandshakeError`.
+   */
+  static acceptInitialize(connection: McplConnection, options: ServerSessionOptions): Promise<McplServerSession> {
+    const protocolVersions = options.protocolVersions ?? [MCP_PROTOCOL_VERSION];
+    const timeoutMs = options.timeout ?? 30_000;
+
+    return new Promise<McplServerSession>((resolve, reject) => {
+      let session: McplServerSession | undefined;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = (err?: Error) => {
+        if (timer) clearTimeout(timer);
+        connection.removeHandler(method.INITIALIZE);
+        connection.removeHandler(method.INITIALIZED);
+        connection.removeListener('close', onClose);
+        if (err) reject(err);
+        else resolve(session!);
+      };
+
+      const onClose = () => finish(new ConnectionClosedError());
+      connection.once('close', onClose);
+
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => finish(new HandshakeError(`Handshake timed out after ${timeoutMs}ms`)), timeoutMs);
+      }
+
+      connection.handle(method.INITIALIZE, (params) => {
+        if (session) throw new RpcError(ERR_INVALID_REQUEST, 'Already initialized');
+
+        const peer = extractMcpl(params.capabilities);
+        const problem = checkMcplVersion(options.capabilities, peer);
+        if (problem) {
+          // Let the error response go out before tearing down the handler
+          setImmediate(() => finish(new HandshakeError(problem)));
+          throw new RpcError(ERR_INVALID_PARAMS, problem, { supported: [options.capabilities.version] });
+        }
+
+        const protocolVersion = protocolVersions.includes(params.protocolVersion)
+          ? params.protocolVersion
+          : protocolVersions[0];
+
+        session = new McplServerSession(
+          connection,
+          protocolVersion,
+          params.clientInfo,
+          options.capabilities,
+          peer!,
+          params.capabilities,
+          negotiateCapabilities(peer!, options.capabilities),
+        );
+
+        const result: McplInitializeResult = {
+          protocolVersion,
+          capabilities: {
+            ...options.mcpCapabilities,
+            experimental: { mcpl: options.capabilities },
+          },
+          serverInfo: options.serverInfo,
+        };
+        return result;
+      });
+
+      connection.onNotification(method.INITIALIZED, () => {
+        if (session) finish();
+      });
+    });
+  }
+}
+
+// ── Helpers ──
+
+/** Describe why the peer's MCPL capabilities are unacceptable, or undefined if they're fine. */
+function checkMcplVersion(local: McplCapabilities, peer: McplCapabilities | undefined): string | undefined {
+  if (!peer) return 'Peer did not advertise MCPL capabilities';
+  if (!isCompatibleMcplVersion(local.version, peer.version)) {
+    return `Incompatible MCPL version ${peer.version} (supported: ${local.version})`;
+  }
+  return undefined;
+}
@@ -16,7 +16,8 @@ export interface JsonRpcRequest {
 
 export interface JsonRpcResponse {
   jsonrpc: '2.0';
-  id: JsonRpcId;
+  /** `null` only for errors where the request id could not be determined. */
+  id: JsonRpcId | null;
   result?: unknown;
   error?: JsonRpcError;
 }
@@ -45,7 +46,7 @@ export function makeResponse(id: JsonRpcId, result: unknown): JsonRpcResponse {
   return { jsonrpc: '2.0', id, result };
 }
 
-export function makeErrorResponse(id: JsonRpcId, error: JsonRpcError): JsonRpcResponse {
+export function makeErrorResponse(id: JsonRpcId | null, error: JsonRpcError): JsonRpcResponse {
   return { jsonrpc: '2.0', id, error };
 }
 
@@ -99,6 +100,17 @@ export function textContent(text: string): TextContent {
   return { type: 'text', text };
 }
 
+// ── JSON-RPC 2.0 Error Codes ──
+
+export const ERR_PARSE_ERROR = -32700;
+export const ERR_INVALID_REQUEST = -32600;
+export const ERR_METHOD_NOT_FOUND = -32601;
+export const ERR_INVALID_PARAMS = -32602;
+export const ERR_INTERNAL_ERROR = -32603;
+
+// Implementation-defined server error (MCPL codes start at -32001)
+export const ERR_QUEUE_OVERFLOW = -32000;
+
 // ── MCPL Error Codes ──
 
 export const ERR_FEATURE_SET_NOT_ENABLED = -32001;
@@ -107,3 +119,4 @@ export const ERR_CHECKPOINT_NOT_FOUND = -32005;
 export const ERR_CHANNEL_NOT_PERMITTED = -32017;
 export const ERR_UNKNOWN_CHANNEL = -32023;
 export const ERR_CHANNEL_OPEN_FAILED = -32024;
+export const ERR_QUOTA_EXCEEDED = -32030;
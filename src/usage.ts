@@ -0,0 +1,298 @@
+/**
+ * Host-side accounting of inference tokens (MCPL Section 11).
+ *
+ * An `InferenceUsageLedger` records the `InferenceUsage` of each inference,
+ * keyed by server, feature set and conversation, and enforces token quotas
+ * over rolling windows. Once a quota is used up, `check()` returns an
+ * `RpcError` with `ERR_QUOTA_EXCEEDED`.
+ *
+ * Requests in flight count too: `reserve()` holds an estimate against the
+ * quotas until the request finishes and its real usage is recorded, so a
+ * server firing requests in parallel cannot get past a limit before any of
+ * them completes. An `InferenceBroker` given a `ledger` reserves for every
+ * `inference/request`. Hosts record their own turns (the `usage` sent in
+ * `context/afterInference`) with `record()`.
+ *
+ * A quota counts entries matching its `server`, `featureSet` and
+ * `conversationId` filters (unset means any), separately for each distinct
+ * value of the fields in `per`. For example
+ * `{ featureSet: 'chat', per: ['server'], window: 3_600_000, maxTokens: 10_000 }`
+ * gives every server its own hourly 10k-token budget for `chat`.
+ *
+ * `snapshot()` sums usage per key; `export()` writes it as JSON.
+ */
+
+import type { InferenceUsage } from './methods.js';
+import { ERR_QUOTA_EXCEEDED } from './types.js';
+import { RpcError } from './errors.js';
+import { writeFileAtomic } from './files.js';
+import { typedEmitter } from './emitter.js';
+
+// ── Public Types ──
+
+export interface UsageKey {
+  server: string;
+  featureSet: string;
+  conversationId?: string;
+}
+
+export interface UsageQuota {
+  server?: string;
+  featureSet?: string;
+  conversationId?: string;
+  /** Key fields counted separately. Defaults to none (one shared budget). */
+  per?: Array<keyof UsageKey>;
+  /** Rolling window (ms). */
+  window: number;
+  maxTokens: number;
+  /** Which tokens count. Defaults to 'total' (input + output). */
+  tokens?: 'total' | 'input' | 'output';
+}
+
+export interface InferenceUsageLedgerOptions {
+  quotas?: UsageQuota[];
+  /** How long (ms) entries are kept. Defaults to the longest quota window, or 24 hours. */
+  retention?: number;
+  /** Clock, for tests. */
+  now?: () => number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageSnapshotEntry extends UsageKey, UsageTotals {}
+
+export interface UsageSnapshot {
+  /** ISO 8601 bounds of the retained history. */
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  entries: UsageSnapshotEntry[];
+}
+
+/** Details attached to an `ERR_QUOTA_EXCEEDED` error. */
+export interface QuotaExceededData {
+  quota: UsageQuota;
+  /** Tokens recorded in the window. */
+  used: number;
+  /** Requests in flight counted against the quota. */
+  inFlight: number;
+  /** Milliseconds until enough recorded usage leaves the window; 0 if waiting on requests in flight only. */
+  retryAfter: number;
+}
+
+/** Usage held for a request in flight. Settle it exactly once. */
+export interface UsageReservation {
+  /** Replace the estimate with the real usage. */
+  commit(usage: InferenceUsage): void;
+  /** Drop the estimate (the request failed). */
+  release(): void;
+}
+
+export interface InferenceUsageLedgerEvents {
+  record: [key: UsageKey, usage: InferenceUsage];
+  exceeded: [key: UsageKey, data: QuotaExceededData];
+}
+
+interface LedgerEntry extends UsageKey, InferenceUsage {
+  at: number;
+}
+
+type HeldUsage = UsageKey & InferenceUsage;
+
+// ── Ledger ──
+
+export class InferenceUsageLedger extends typedEmitter<InferenceUsageLedgerEvents>() {
+  private options: InferenceUsageLedgerOptions;
+  private now: () => number;
+  private entries: LedgerEntry[] = [];
+  private held = new Set<HeldUsage>();
+
+  constructor(options: InferenceUsageLedgerOptions = {}) {
+    super();
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  get quotas(): UsageQuota[] {
+    return this.options.quotas?.slice() ?? [];
+  }
+
+  /** Add the usage of one inference. */
+  record(key: UsageKey, usage: InferenceUsage): void {
+    this.prune();
+    const entry: LedgerEntry = {
+      server: key.server,
+      featureSet: key.featureSet,
+      at: this.now(),
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+    };
+    if (key.conversationId !== undefined) entry.conversationId = key.conversationId;
+    this.entries.push(entry);
+    this.emit('record', key, usage);
+  }
+
+  /**
+   * Why an inference for `key` must be refused, or undefined if every quota
+   * has room. Reservations of requests in flight count as used.
+   */
+  check(key: UsageKey): RpcError | undefined {
+    this.prune();
+    for (const quota of this.options.quotas ?? []) {
+      if (!matches(quota, key)) continue;
+      const counted = this.counted(quota, key);
+      const used = sumTokens(quota, counted);
+      const inFlight = this.heldFor(quota, key);
+      if (used + sumTokens(quota, inFlight) < quota.maxTokens) continue;
+
+      // Entries leave the window oldest first; find when enough have gone
+      let remaining = used;
+      let retryAfter = 0;
+      for (const entry of counted) {
+        if (remaining < quota.maxTokens) break;
+        remaining -= tokensOf(quota, entry);
+        retryAfter = entry.at + quota.window - this.now();
+      }
+
+      const data: QuotaExceededData = { quota, used, inFlight: inFlight.length, retryAfter: Math.max(0, retryAfter) };
+      this.emit('exceeded', key, data);
+      const message =
+        used < quota.maxTokens
+          ? `Token quota for feature set ${key.featureSet} is reserved by ${inFlight.length} request(s) in flight: ${used}/${quota.maxTokens} used`
+          : `Token quota exceeded for feature set ${key.featureSet}: ${used}/${quota.maxTokens}`;
+      return new RpcError(ERR_QUOTA_EXCEEDED, message, data);
+    }
+    return undefined;
+  }
+
+  /**
+   * Hold `estimate` against the quotas for a request about to run, until the
+   * reservation settles. Throws the `check()` error if a quota has no room.
+   */
+  reserve(key: UsageKey, estimate: InferenceUsage): UsageReservation {
+    const refused = this.check(key);
+    if (refused) throw refused;
+
+    const held: HeldUsage = { ...key, inputTokens: estimate.inputTokens, outputTokens: estimate.outputTokens };
+    this.held.add(held);
+    return {
+      commit: (usage) => {
+        if (this.held.delete(held)) this.record(key, usage);
+      },
+      release: () => {
+        this.held.delete(held);
+      },
+    };
+  }
+
+  /** Tokens left under the tightest quota that applies to `key`, or Infinity. */
+  remaining(key: UsageKey): number {
+    this.prune();
+    let least = Infinity;
+    for (const quota of this.options.quotas ?? []) {
+      if (!matches(quota, key)) continue;
+      const used = sumTokens(quota, this.counted(quota, key)) + sumTokens(quota, this.heldFor(quota, key));
+      least = Math.min(least, Math.max(0, quota.maxTokens - used));
+    }
+    return least;
+  }
+
+  /** Usage summed per server, feature set and conversation, optionally filtered. */
+  snapshot(filter: Partial<UsageKey> = {}): UsageSnapshot {
+    this.prune();
+    const groups = new Map<string, UsageSnapshotEntry>();
+    const totals: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0 };
+
+    for (const entry of this.entries) {
+      if (!matches(filter, entry)) continue;
+      const id = JSON.stringify([entry.server, entry.featureSet, entry.conversationId ?? null]);
+      let group = groups.get(id);
+      if (!group) {
+        group = { server: entry.server, featureSet: entry.featureSet, requests: 0, inputTokens: 0, outputTokens: 0 };
+        if (entry.conversationId !== undefined) group.conversationId = entry.conversationId;
+        groups.set(id, group);
+      }
+      for (const sum of [group, totals]) {
+        sum.requests += 1;
+        sum.inputTokens += entry.inputTokens;
+        sum.outputTokens += entry.outputTokens;
+      }
+    }
+
+    const now = this.now();
+    return {
+      from: new Date(this.entries[0]?.at ?? now).toISOString(),
+      to: new Date(now).toISOString(),
+      totals,
+      entries: [...groups.values()],
+    };
+  }
+
+  toJSON(): UsageSnapshot {
+    return this.snapshot();
+  }
+
+  /** Write a snapshot to `path` as JSON. */
+  async export(path: string, filter?: Partial<UsageKey>): Promise<void> {
+    await writeFileAtomic(path, JSON.stringify(this.snapshot(filter), null, 2) + '\n');
+  }
+
+  // ── Internal ──
+
+  /** Entries inside the quota's window that count against it for `key`, oldest first. */
+  private counted(quota: UsageQuota, key: UsageKey): LedgerEntry[] {
+    if (!matches(quota, key)) return [];
+    const cutoff = this.now() - quota.window;
+    return this.entries.filter((e) => e.at > cutoff && countsTowards(quota, key, e));
+  }
+
+  /** Reservations that count against the quota for `key`. */
+  private heldFor(quota: UsageQuota, key: UsageKey): HeldUsage[] {
+    if (!matches(quota, key)) return [];
+    return [...this.held].filter((h) => countsTowards(quota, key, h));
+  }
+
+  private prune(): void {
+    const windows = (this.options.quotas ?? []).map((q) => q.window);
+    const retention = this.options.retention ?? (windows.length > 0 ? Math.max(...windows) : 24 * 3_600_000);
+    const cutoff = this.now() - retention;
+    const keep = this.entries.findIndex((e) => e.at > cutoff);
+    if (keep === -1) this.entries = [];
+    else if (keep > 0) this.entries.splice(0, keep);
+  }
+}
+
+// ── Helpers ──
+
+/** Whether `entry` passes the set fields of `filter`. */
+function matches(filter: Partial<UsageKey>, entry: UsageKey): boolean {
+  return (
+    (filter.server === undefined || filter.server === entry.server) &&
+    (filter.featureSet === undefined || filter.featureSet === entry.featureSet) &&
+    (filter.conversationId === undefined || filter.conversationId === entry.conversationId)
+  );
+}
+
+/** Whether usage under `entry` shares the quota's budget with `key`. */
+function countsTowards(quota: UsageQuota, key: UsageKey, entry: UsageKey): boolean {
+  return matches(quota, entry) && (quota.per ?? []).every((field) => entry[field] === key[field]);
+}
+
+function sumTokens(quota: UsageQuota, entries: InferenceUsage[]): number {
+  return entries.reduce((sum, e) => sum + tokensOf(quota, e), 0);
+}
+
+function tokensOf(quota: UsageQuota, entry: InferenceUsage): number {
+  switch (quota.tokens ?? 'total') {
+    case 'input':
+      return entry.inputTokens;
+    case 'output':
+      return entry.outputTokens;
+    default:
+      return entry.inputTokens + entry.outputTokens;
+  }
+}
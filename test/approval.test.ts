@@ -0,0 +1,121 @@
+/**
+ * Tests for the scope/elevate approval engine.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { ScopeApprovalEngine } from '../src/index.js';
+
+import type { ScopeElevateParams } from '../src/index.js';
+
+function elevate(featureSet: string, label: string): ScopeElevateParams {
+  return { featureSet, scope: { label } };
+}
+
+describe('ScopeApprovalEngine', () => {
+  it('applies deny rules, approve rules and the prompt in order', async () => {
+    const prompted: string[] = [];
+    const engine = new ScopeApprovalEngine({
+      autoDeny: [{ label: '/etc/**', reason: 'system files' }],
+      autoApprove: [{ featureSet: 'files', label: 'workspace' }, { featureSet: 'files', label: '/etc/hosts' }],
+      prompt: (req) => {
+        prompted.push(req.scope.label);
+        return { approved: req.scope.label !== 'secrets', reason: 'nope', remember: 'session' };
+      },
+    });
+
+    assert.deepEqual(await engine.evaluate(elevate('files', 'workspace/a.ts')), { approved: true });
+    assert.deepEqual(await engine.evaluate(elevate('files', '/etc/hosts')), {
+      approved: false,
+      reason: 'system files',
+    });
+    assert.deepEqual(await engine.evaluate(elevate('files', 'secrets')), { approved: false, reason: 'nope' });
+
+    assert.deepEqual(await engine.evaluate(elevate('files', 'downloads')), { approved: true });
+    assert.deepEqual(await engine.evaluate(elevate('files', 'downloads')), { approved: true });
+    assert.deepEqual(prompted, ['secrets', 'downloads']);
+
+    const grants = engine.listGrants();
+    assert.equal(grants.length, 1);
+    assert.equal(grants[0].label, 'downloads');
+    assert.equal(grants[0].persistent, false);
+
+    assert.equal(await engine.revoke(grants[0].id), 1);
+    assert.deepEqual(engine.listGrants(), []);
+    await engine.evaluate(elevate('files', 'downloads'));
+    assert.deepEqual(prompted, ['secrets', 'downloads', 'downloads']);
+  });
+
+  it('denies when no policy decides', async () => {
+    const engine = new ScopeApprovalEngine();
+    const result = await engine.evaluate(elevate('files', 'anything'));
+    assert.equal(result.approved, false);
+    assert.ok(result.reason);
+  });
+
+  it('persists grants to disk and expires them', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpl-grants-'));
+    const grantsFile = path.join(dir, 'grants.json');
+    let now = Date.parse('2026-01-01T00:00:00Z');
+
+    try {
+      const first = await ScopeApprovalEngine.load({
+        grantsFile,
+        now: () => now,
+        prompt: () => ({ approved: true, remember: 'persist', ttl: 60_000, payload: { token: 't1' } }),
+      });
+      assert.deepEqual(await first.evaluate(elevate('net', 'api.example.com')), {
+        approved: true,
+        payload: { token: 't1' },
+      });
+      await first.grant('net', 'cdn.example.com', { duration: 'session' });
+
+      const saved = JSON.parse(await fs.readFile(grantsFile, 'utf-8'));
+      assert.equal(saved.grants.length, 1);
+      assert.equal(saved.grants[0].expiresAt, '2026-01-01T00:01:00.000Z');
+
+      // A fresh engine reuses the persisted grant without prompting
+      const second = await ScopeApprovalEngine.load({ grantsFile, now: () => now });
+      assert.deepEqual(await second.evaluate(elevate('net', 'api.example.com')), {
+        approved: true,
+        payload: { token: 't1' },
+      });
+      assert.deepEqual(second.listGrants().map((g) => g.label), ['api.example.com']);
+
+      now += 60_000;
+      assert.equal((await second.evaluate(elevate('net', 'api.example.com'))).approved, false);
+      assert.deepEqual(second.listGrants(), []);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps the grants file in step with concurrent and replaced grants', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpl-approval-'));
+    const grantsFile = path.join(dir, 'grants.json');
+    try {
+      const engine = await ScopeApprovalEngine.load({
+        grantsFile,
+        prompt: () => ({ approved: true, remember: 'persist' }),
+      });
+      const results = await Promise.all([
+        engine.evaluate(elevate('net', 'a.example.com')),
+        engine.evaluate(elevate('net', 'b.example.com')),
+      ]);
+      assert.deepEqual(results.map((r) => r.approved), [true, true]);
+      const saved = JSON.parse(await fs.readFile(grantsFile, 'utf-8'));
+      assert.deepEqual(saved.grants.map((g: { label: string }) => g.label).sort(), ['a.example.com', 'b.example.com']);
+
+      // A session grant replacing a persisted one removes it from disk
+      await engine.grant('net', 'a.example.com', { duration: 'session' });
+      const reloaded = await ScopeApprovalEngine.load({ grantsFile });
+      assert.deepEqual(reloaded.listGrants().map((g) => g.label), ['b.example.com']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
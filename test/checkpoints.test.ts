@@ -0,0 +1,109 @@
+/**
+ * Tests for the checkpoint tree store.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { CheckpointStore, ERR_CHECKPOINT_NOT_FOUND, method } from '../src/index.js';
+
+import { streamPair } from './helpers.js';
+
+describe('CheckpointStore', () => {
+  it('rebuilds state along branches', async () => {
+    const store = new CheckpointStore({ snapshotInterval: 2 });
+
+    await store.record('game', { id: 'a', patch: [{ op: 'add', path: '/score', value: 1 }] });
+    await store.record('game', { id: 'b', patch: [{ op: 'replace', path: '/score', value: 2 }] });
+    await store.record('game', { id: 'c', patch: [{ op: 'add', path: '/level', value: 'boss' }] });
+    assert.deepEqual(store.stateAt('game', 'c'), { score: 2, level: 'boss' });
+
+    // Branch from 'a'
+    await store.rollback('game', 'a');
+    assert.equal(store.head('game')?.id, 'a');
+    await store.recordHostState('game', { checkpoint: 'd', patch: [{ op: 'replace', path: '/score', value: 10 }] });
+
+    assert.deepEqual(store.stateAt('game', 'd'), { score: 10 });
+    assert.deepEqual(store.children('game', 'a').map((c) => c.id), ['b', 'd']);
+    assert.equal(store.get('game', 'd')?.parent, 'a');
+    assert.deepEqual(store.stateAt('game', 'c'), { score: 2, level: 'boss' });
+
+    await assert.rejects(
+      store.record('game', { patch: [{ op: 'remove', path: '/missing' }] }),
+      { name: 'JsonPatchError' },
+    );
+    assert.equal(store.list('game').length, 4);
+  });
+
+  it('prunes by count and age without breaking replay', async () => {
+    let now = Date.parse('2026-01-01T00:00:00Z');
+    const store = new CheckpointStore({ maxCheckpoints: 3, maxAge: 60_000, now: () => now });
+
+    for (let i = 1; i <= 5; i++) {
+      await store.record('game', { id: `cp${i}`, patch: [{ op: 'add', path: `/k${i}`, value: i }] });
+      now += 1_000;
+    }
+    assert.deepEqual(store.list('game').map((c) => c.id), ['cp3', 'cp4', 'cp5']);
+    assert.equal(store.get('game', 'cp3')?.parent, undefined);
+    assert.deepEqual(store.stateAt('game', 'cp5'), { k1: 1, k2: 2, k3: 3, k4: 4, k5: 5 });
+
+    now += 120_000;
+    await store.prune();
+    assert.deepEqual(store.list('game').map((c) => c.id), ['cp5']);
+    assert.deepEqual(store.stateAt('game', 'cp5'), { k1: 1, k2: 2, k3: 3, k4: 4, k5: 5 });
+  });
+
+  it('answers state/rollback and persists across restarts', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpl-checkpoints-'));
+    const file = path.join(dir, 'checkpoints.json');
+    const [host, server] = streamPair();
+
+    try {
+      const first = await CheckpointStore.load({ file });
+      await first.record('game', { id: 'a', state: { hp: 10 } });
+      await first.record('game', { id: 'b', patch: [{ op: 'replace', path: '/hp', value: 3 }] });
+
+      const restored: unknown[] = [];
+      const second = await CheckpointStore.load({ file, restore: (_fs, state) => void restored.push(state) });
+      second.attach(server);
+
+      const result = await host.sendRequest(method.STATE_ROLLBACK, { featureSet: 'game', checkpoint: 'a' });
+      assert.deepEqual(result, { checkpoint: 'a', success: true });
+      assert.deepEqual(restored, [{ hp: 10 }]);
+      await assert.rejects(
+        host.sendRequest(method.STATE_ROLLBACK, { featureSet: 'game', checkpoint: 'zzz' }),
+        (err: Error & { code?: number }) => err.code === ERR_CHECKPOINT_NOT_FOUND,
+      );
+
+      const third = await CheckpointStore.load({ file });
+      assert.equal(third.head('game')?.id, 'a');
+      assert.deepEqual(third.stateAt('game', 'b'), { hp: 3 });
+    } finally {
+      host.close();
+      server.close();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('serializes concurrent writes to the same file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpl-checkpoints-'));
+    const file = path.join(dir, 'checkpoints.json');
+    try {
+      const store = await CheckpointStore.load({ file });
+      await Promise.all([
+        store.record('game', { id: 'g1', state: { hp: 1 } }),
+        store.record('files', { id: 'f1', state: { open: [] } }),
+        store.record('game', { id: 'g2', patch: [{ op: 'replace', path: '/hp', value: 2 }] }),
+      ]);
+
+      const reloaded = await CheckpointStore.load({ file });
+      assert.equal(reloaded.head('game')?.id, 'g2');
+      assert.equal(reloaded.head('files')?.id, 'f1');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -12,6 +12,12 @@ import {
   textContent,
   method,
   ERR_CHECKPOINT_NOT_FOUND,
+  ERR_METHOD_NOT_FOUND,
+  ERR_PARSE_ERROR,
+  ERR_INTERNAL_ERROR,
+  ERR_INVALID_REQUEST,
+  ERR_QUEUE_OVERFLOW,
+  RpcError,
 } from '../src/index.js';
 
 import type {
@@ -354,11 +360,20 @@ describe('McplConnection', () => {
 
     // Don't respond — let it timeout
     await assert.rejects(promise, (err: Error) => {
-      assert.equal(err.name, 'RpcError');
+      assert.equal(err.name, 'ConnectionTimeoutError');
       assert.ok(err.message.includes('timed out'));
       return true;
     });
 
+    // The peer is told to stop working on it
+    const req = await server.nextMessage();
+    assert.equal(req.type, 'request');
+    const msg = await server.nextMessage();
+    assert.equal(msg.type, 'notification');
+    if (msg.type !== 'notification') throw new Error('unreachable');
+    assert.equal(msg.notification.method, method.CANCELLED);
+    assert.equal((msg.notification.params as { requestId: number }).requestId, 1);
+
     client.close();
     server.close();
   });
@@ -463,4 +478,503 @@ describe('McplConnection', () => {
     client.close();
     server.close();
   });
+
+  it('handler registry dispatches requests and notifications', async () => {
+    const [client, server] = await connectedPair();
+
+    server.handle(method.PUSH_EVENT, async (params) => {
+      const p = params as PushEventParams;
+      return { accepted: true, inferenceId: `inf_${p.eventId}` } satisfies PushEventResult;
+    });
+
+    const notified: unknown[] = [];
+    server.onNotification(method.FEATURE_SETS_UPDATE, (params) => {
+      notified.push(params);
+    });
+
+    const result = (await client.sendRequest(method.PUSH_EVENT, {
+      featureSet: 'lobby',
+      eventId: 'evt_002',
+      timestamp: '2026-02-12T00:00:00Z',
+      payload: { content: [] },
+    })) as PushEventResult;
+    assert.equal(result.accepted, true);
+    assert.equal(result.inferenceId, 'inf_evt_002');
+
+    client.sendNotification(method.FEATURE_SETS_UPDATE, { enabled: ['lobby'] });
+    // Unhandled notifications still reach the pull-based API
+    client.sendNotification('test/other', {});
+
+    const msg = await server.nextMessage();
+    assert.equal(msg.type, 'notification');
+    if (msg.type !== 'notification') throw new Error('unreachable');
+    assert.equal(msg.notification.method, 'test/other');
+    assert.deepEqual(notified, [{ enabled: ['lobby'] }]);
+
+    client.close();
+    server.close();
+  });
+
+  it('handler registry maps errors to responses', async () => {
+    const [client, server] = await connectedPair();
+
+    server.handle(method.STATE_ROLLBACK, () => {
+      throw new RpcError(ERR_CHECKPOINT_NOT_FOUND, 'Checkpoint not found', { checkpoint: 'cp_1' });
+    });
+    server.handle('test/crash', () => {
+      throw new Error('boom');
+    });
+
+    await assert.rejects(client.sendRequest(method.STATE_ROLLBACK, {
+      featureSet: 'game',
+      checkpoint: 'cp_1',
+    }), (err: RpcError) => {
+      assert.equal(err.code, ERR_CHECKPOINT_NOT_FOUND);
+      assert.equal(err.rpcMessage, 'Checkpoint not found');
+      assert.deepEqual(err.data, { checkpoint: 'cp_1' });
+      return true;
+    });
+
+    await assert.rejects(client.sendRequest('test/crash'), (err: RpcError) => {
+      assert.equal(err.code, ERR_INTERNAL_ERROR);
+      assert.equal(err.rpcMessage, 'boom');
+      return true;
+    });
+
+    // Unhandled requests still reach nextMessage() while handlers are registered
+    const pending = client.sendRequest('test/unknown');
+    const msg = await server.nextMessage();
+    assert.equal(msg.type, 'request');
+    if (msg.type !== 'request') throw new Error('unreachable');
+    server.sendResponse(msg.request.id, 'ok');
+    assert.equal(await pending, 'ok');
+
+    // With only handlers in use they are answered with method not found
+    await assert.rejects(client.sendRequest('test/unknown'), (err: RpcError) => {
+      assert.equal(err.code, ERR_METHOD_NOT_FOUND);
+      return true;
+    });
+
+    // A 'request' listener keeps them coming, unless rejection is set explicitly
+    const requests: string[] = [];
+    server.on('request', (request) => {
+      requests.push(request.method);
+      server.sendResponse(request.id, 'heard');
+    });
+    assert.equal(await client.sendRequest('test/unknown'), 'heard');
+    server.unhandledRequests = 'reject';
+    await assert.rejects(client.sendRequest('test/unknown'), (err: RpcError) => {
+      assert.equal(err.code, ERR_METHOD_NOT_FOUND);
+      return true;
+    });
+    assert.deepEqual(requests, ['test/unknown']);
+
+    client.close();
+    server.close();
+  });
+
+  it('handlers claim requests queued before registration', async () => {
+    const [client, server] = await connectedPair();
+
+    const pending = client.sendRequest('test/early', { n: 1 });
+    // Let the request arrive and sit in the pull queue
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    server.handle('test/early', (params) => params);
+    assert.deepEqual(await pending, { n: 1 });
+
+    client.close();
+    server.close();
+  });
+
+  it('typed method map infers params and results', async () => {
+    const [client, server] = await connectedPair();
+
+    server.handle(method.STATE_ROLLBACK, (params) => {
+      return { checkpoint: params.checkpoint, success: true };
+    });
+
+    const result = await client.sendRequest(method.STATE_ROLLBACK, { featureSet: 'game', checkpoint: 'cp_7' });
+    assert.equal(result.checkpoint, 'cp_7');
+    assert.equal(result.success, true);
+
+    const wrongParams = { featureSet: 'game', scope: { label: 'fs:/tmp' } };
+    // @ts-expect-error ScopeElevateParams is not valid for state/rollback
+    const rejected = client.sendRequest(method.STATE_ROLLBACK, wrongParams);
+    rejected.catch(() => {});
+
+    // @ts-expect-error featureSets/update is a notification, not a request
+    const notRequest = client.sendRequest(method.FEATURE_SETS_UPDATE, {});
+    notRequest.catch(() => {});
+
+    client.close();
+    server.close();
+  });
+
+  it('abort signal cancels request on both sides', async () => {
+    const [client, server] = await connectedPair();
+
+    let handlerStarted!: () => void;
+    const started = new Promise<void>((resolve) => { handlerStarted = resolve; });
+    let handlerSignal: AbortSignal | undefined;
+
+    server.handle(method.CONTEXT_BEFORE_INFERENCE, (_params, ctx) => {
+      handlerSignal = ctx.signal;
+      handlerStarted();
+      return new Promise((_resolve, reject) => {
+        ctx.signal.addEventListener('abort', () => reject(ctx.signal.reason));
+      });
+    });
+
+    const controller = new AbortController();
+    const promise = client.sendRequest(method.CONTEXT_BEFORE_INFERENCE, {
+      inferenceId: 'inf_1',
+      conversationId: 'conv_1',
+      turnIndex: 0,
+      model: { id: 'm', vendor: 'v', contextWindow: 1000, capabilities: [] },
+    }, { signal: controller.signal });
+
+    await started;
+    controller.abort();
+
+    await assert.rejects(promise, (err: Error) => {
+      assert.equal(err.name, 'RequestCancelledError');
+      return true;
+    });
+
+    // Wait for the cancel notification to reach the server
+    await new Promise<void>((resolve) => {
+      if (handlerSignal?.aborted) return resolve();
+      handlerSignal?.addEventListener('abort', () => resolve());
+    });
+    assert.equal(handlerSignal?.aborted, true);
+
+    // An already-aborted signal rejects without sending anything
+    await assert.rejects(
+      client.sendRequest('test/never', {}, { signal: AbortSignal.abort() }),
+      (err: Error) => err.name === 'RequestCancelledError',
+    );
+
+    client.close();
+    server.close();
+  });
+
+  it('progress notifications reach the caller and reset the timeout', async () => {
+    const [client, server] = await connectedPair();
+
+    server.handle(method.CHANNELS_OPEN, async (params, ctx) => {
+      assert.equal(ctx.progressToken !== undefined, true);
+      for (let i = 1; i <= 3; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 40));
+        ctx.reportProgress(i, 3, `step ${i}`);
+      }
+      return {
+        channel: { id: 'game:1', type: params.type, label: 'Game 1', direction: 'bidirectional' as const },
+      };
+    });
+
+    const updates: Array<{ progress: number; total?: number; message?: string }> = [];
+    // Total handler time (~120ms) exceeds the timeout; progress keeps it alive
+    const result = await client.sendRequest(method.CHANNELS_OPEN, {
+      type: 'game_instance',
+      address: {},
+    }, {
+      timeout: 100,
+      resetTimeoutOnProgress: true,
+      onProgress: ({ progress, total, message }) => updates.push({ progress, total, message }),
+    });
+
+    assert.equal(result.channel.id, 'game:1');
+    assert.deepEqual(updates.map((u) => u.progress), [1, 2, 3]);
+    assert.equal(updates[2].total, 3);
+    assert.equal(updates[2].message, 'step 3');
+
+    client.close();
+    server.close();
+  });
+
+  it('sendBatch resolves each element individually', async () => {
+    const [client, server] = await connectedPair();
+
+    const notified: unknown[] = [];
+    server.handle('test/double', (params) => (params as { n: number }).n * 2);
+    server.handle('test/fail', () => {
+      throw new RpcError(ERR_CHECKPOINT_NOT_FOUND, 'nope');
+    });
+    server.onNotification('test/note', (params) => { notified.push(params); });
+
+    const [a, note, b, fail] = client.sendBatch([
+      { method: 'test/double', params: { n: 2 } },
+      { method: 'test/note', params: { hi: true }, notification: true },
+      { method: 'test/double', params: { n: 5 } },
+      { method: 'test/fail' },
+    ]);
+
+    assert.equal(await a, 4);
+    assert.equal(await note, undefined);
+    assert.equal(await b, 10);
+    await assert.rejects(fail, (err: RpcError) => err.code === ERR_CHECKPOINT_NOT_FOUND);
+    assert.deepEqual(notified, [{ hi: true }]);
+
+    client.close();
+    server.close();
+  });
+
+  it('incoming batches follow JSON-RPC error rules', async () => {
+    const { PassThrough } = await import('node:stream');
+
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const conn = McplConnection.fromStreams(input, output);
+    conn.handle('test/echo', (params) => params);
+    conn.on('error', () => {});
+
+    const replies: unknown[] = [];
+    output.on('data', (chunk: Buffer) => {
+      for (const line of chunk.toString().split('\n')) {
+        if (line) replies.push(JSON.parse(line));
+      }
+    });
+
+    // Malformed batch: single Parse error
+    input.write('[{"jsonrpc": "2.0", "method": "test/echo"},\n');
+    // Empty batch: single Invalid Request error
+    input.write('[]\n');
+    // Mixed batch: one request, one notification, one invalid element
+    input.write(JSON.stringify([
+      { jsonrpc: '2.0', id: 1, method: 'test/echo', params: { v: 1 } },
+      { jsonrpc: '2.0', method: 'test/ignored' },
+      42,
+    ]) + '\n');
+    // Notification-only batch: no reply at all
+    input.write(JSON.stringify([{ jsonrpc: '2.0', method: 'test/ignored' }]) + '\n');
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assert.equal(replies.length, 3);
+    assert.deepEqual(replies[0], { jsonrpc: '2.0', id: null, error: { code: ERR_PARSE_ERROR, message: 'Parse error' } });
+    assert.deepEqual(replies[1], {
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: ERR_INVALID_REQUEST, message: 'Invalid Request: empty batch' },
+    });
+    const batchReply = replies[2] as Array<{ id: number | null; result?: unknown; error?: { code: number } }>;
+    assert.ok(Array.isArray(batchReply));
+    assert.equal(batchReply.length, 2);
+    assert.equal(batchReply[0].id, null);
+    assert.equal(batchReply[0].error?.code, ERR_INVALID_REQUEST);
+    assert.deepEqual(batchReply[1], { jsonrpc: '2.0', id: 1, result: { v: 1 } });
+
+    conn.close();
+  });
+
+  it('drain waits for slow writers', async () => {
+    const { PassThrough, Writable } = await import('node:stream');
+
+    const flushes: Array<() => void> = [];
+    const slow = new Writable({
+      write(_chunk, _enc, callback) {
+        flushes.push(callback);
+      },
+    });
+
+    const conn = McplConnection.fromStreams(new PassThrough(), slow, { writeHighWaterMark: 64 });
+
+    let drained = false;
+    const done = conn.notify('test/big', { data: 'x'.repeat(100) }).then(() => { drained = true; });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.equal(conn.needsDrain, true);
+    assert.equal(drained, false);
+
+    flushes.shift()!();
+    await done;
+    assert.equal(conn.needsDrain, false);
+
+    conn.close();
+  });
+
+  it('bounded incoming queue applies overflow policy', async () => {
+    const { PassThrough } = await import('node:stream');
+
+    const send = (input: InstanceType<typeof PassThrough>, id: number) =>
+      input.write(JSON.stringify({ jsonrpc: '2.0', id, method: 'test/work' }) + '\n');
+
+    // dropOldest: the oldest request is answered with an overflow error
+    {
+      const input = new PassThrough();
+      const output = new PassThrough();
+      const conn = McplConnection.fromStreams(input, output, { maxIncomingQueue: 2, queueOverflow: 'dropOldest' });
+      const dropped: unknown[] = [];
+      conn.on('overflow', (msg) => dropped.push(msg.type === 'request' && msg.request.id));
+
+      for (let id = 1; id <= 3; id++) send(input, id);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      assert.deepEqual(dropped, [1]);
+      const reply = JSON.parse(String(output.read()));
+      assert.equal(reply.id, 1);
+      assert.equal(reply.error.code, ERR_QUEUE_OVERFLOW);
+
+      const next = await conn.nextMessage();
+      assert.equal(next.type === 'request' && next.request.id, 2);
+      conn.close();
+    }
+
+    // pause: reading stops at the limit and resumes as the consumer catches up
+    {
+      const input = new PassThrough();
+      const conn = McplConnection.fromStreams(input, new PassThrough(), { maxIncomingQueue: 1, queueOverflow: 'pause' });
+
+      send(input, 1);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      assert.equal(input.isPaused(), true);
+
+      send(input, 2);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      assert.equal(conn.queuedMessages, 1);
+
+      const first = await conn.nextMessage();
+      assert.equal(first.type === 'request' && first.request.id, 1);
+      const second = await conn.nextMessage();
+      assert.equal(second.type === 'request' && second.request.id, 2);
+      conn.close();
+    }
+  });
+
+  it('maximum frame size guards both directions', async () => {
+    const { PassThrough } = await import('node:stream');
+
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const conn = McplConnection.fromStreams(input, output, { maxFrameSize: 256 });
+
+    const errors: Error[] = [];
+    conn.on('error', (err) => errors.push(err));
+
+    // Oversized incoming request is answered with -32600
+    input.write(JSON.stringify({
+      jsonrpc: '2.0',
+      id: 3,
+      method: method.PUSH_EVENT,
+      params: { payload: { content: [{ type: 'image', data: 'A'.repeat(1000) }] } },
+    }) + '\n');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].name, 'FrameTooLargeError');
+    const reply = JSON.parse(String(output.read()));
+    assert.equal(reply.id, 3);
+    assert.equal(reply.error.code, ERR_INVALID_REQUEST);
+
+    // Oversized outgoing message is refused before writing, naming the method
+    await assert.rejects(
+      conn.sendRequest('test/upload', { data: 'B'.repeat(1000) }),
+      (err: Error) => err.name === 'FrameTooLargeError' && err.message.includes('test/upload'),
+    );
+    assert.throws(
+      () => conn.sendNotification('test/upload', { data: 'B'.repeat(1000) }),
+      (err: Error) => err.name === 'FrameTooLargeError',
+    );
+    assert.equal(output.read(), null);
+
+    conn.close();
+  });
+
+  it('an oversized request with params before method is not taken for a response', async () => {
+    const { PassThrough } = await import('node:stream');
+
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const conn = McplConnection.fromStreams(input, output, { maxFrameSize: 256 });
+    conn.on('error', () => {});
+
+    // Our own request id 1 is pending when the peer's oversized request id 1 arrives
+    const ours = conn.sendRequest('test/ping');
+    const sent = JSON.parse(String(output.read()));
+    assert.equal(sent.id, 1);
+
+    input.write(JSON.stringify({ jsonrpc: '2.0', id: 1, params: { data: 'A'.repeat(1000) }, method: 'test/upload' }) + '\n');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const reply = JSON.parse(String(output.read()));
+    assert.equal(reply.id, 1);
+    assert.equal(reply.error.code, ERR_INVALID_REQUEST);
+
+    input.write(JSON.stringify({ jsonrpc: '2.0', id: 1, result: 'pong' }) + '\n');
+    assert.equal(await ours, 'pong');
+
+    conn.close();
+  });
+
+  it('an oversized answer inside a batch becomes an error in the batch reply', async () => {
+    const { PassThrough } = await import('node:stream');
+
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const conn = McplConnection.fromStreams(input, output, { maxFrameSize: 200 });
+    conn.handle('small', () => 'ok');
+    conn.handle('big', () => 'C'.repeat(1000));
+
+    const errors: Error[] = [];
+    conn.on('error', (err) => errors.push(err));
+
+    input.write(JSON.stringify([
+      { jsonrpc: '2.0', id: 1, method: 'small' },
+      { jsonrpc: '2.0', id: 2, method: 'big' },
+    ]) + '\n');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const reply = JSON.parse(String(output.read()));
+    assert.ok(Array.isArray(reply));
+    assert.deepEqual(reply[0], { jsonrpc: '2.0', id: 1, result: 'ok' });
+    assert.equal(reply[1].id, 2);
+    assert.equal(reply[1].error.code, ERR_INTERNAL_ERROR);
+    assert.equal(output.read(), null);
+    assert.equal(errors[0].name, 'FrameTooLargeError');
+
+    conn.close();
+  });
+
+  it('spawn connects to a child process and forwards stderr', async () => {
+    // Minimal MCPL peer: echoes request params back as the result
+    const script = `
+      const rl = require('node:readline').createInterface({ input: process.stdin });
+      console.error('server ready');
+      rl.on('line', (line) => {
+        const msg = JSON.parse(line);
+        if (msg.method === 'test/exit') process.exit(3);
+        process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: msg.params }) + '\\n');
+      });
+    `;
+    const conn = McplConnection.spawn(process.execPath, ['-e', script]);
+
+    const logs: string[] = [];
+    conn.on('log', (line) => logs.push(line));
+
+    assert.deepEqual(await conn.sendRequest('test/echo', { n: 1 }), { n: 1 });
+
+    // A crash rejects outstanding requests with the exit status
+    await assert.rejects(conn.sendRequest('test/exit'), (err: Error & { exitCode?: number }) => {
+      assert.equal(err.name, 'ProcessExitError');
+      assert.equal(err.exitCode, 3);
+      return true;
+    });
+    assert.deepEqual(logs, ['server ready']);
+    assert.equal(conn.isClosed, true);
+  });
+
+  it('close escalates to SIGKILL when the process ignores SIGTERM', async () => {
+    const script = `
+      process.on('SIGTERM', () => {});
+      console.error('ignoring SIGTERM');
+      setInterval(() => {}, 1000);
+    `;
+    const conn = McplConnection.spawn(process.execPath, ['-e', script], { killTimeout: 100 });
+    await new Promise<void>((resolve) => conn.once('log', () => resolve()));
+
+    const exited = new Promise<NodeJS.Signals | null>((resolve) => conn.once('exit', (_code, signal) => resolve(signal)));
+    conn.close();
+    assert.equal(await exited, 'SIGKILL');
+  });
 });
@@ -0,0 +1,136 @@
+/**
+ * Tests for feature set tracking and enforcement.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { once } from 'node:events';
+
+import {
+  FeatureSetRegistry,
+  ERR_FEATURE_SET_NOT_ENABLED,
+  ERR_UNKNOWN_FEATURE_SET,
+  method,
+} from '../src/index.js';
+
+import type { McplCapabilities } from '../src/index.js';
+
+import { sessionPair } from './helpers.js';
+
+const hostCaps: McplCapabilities = { version: '0.4', rollback: true, pushEvents: true, scopedAccess: true };
+
+describe('FeatureSetRegistry', () => {
+  it('rejects calls tagged with disabled or unknown feature sets', async () => {
+    const [host, server] = await sessionPair(hostCaps, {
+      version: '0.4',
+      rollback: true,
+      featureSets: [
+        { name: 'game', uses: ['state/rollback'], rollback: true, hostState: false },
+        { name: 'files', uses: ['state/rollback'], rollback: true, hostState: false },
+      ],
+    });
+
+    const hostSets = FeatureSetRegistry.forSession(host);
+    const serverSets = FeatureSetRegistry.forSession(server);
+    assert.deepEqual([...hostSets.declared.keys()], ['game', 'files']);
+    assert.equal(serverSets.isEnabled('files'), true);
+
+    const changed = once(serverSets, 'change');
+    hostSets.update({ disabled: ['files'], scopes: { game: { whitelist: ['level/*'] } } });
+    await changed;
+    assert.equal(hostSets.isEnabled('files'), false);
+    assert.equal(serverSets.isEnabled('files'), false);
+    assert.deepEqual(serverSets.getScope('game'), { whitelist: ['level/*'] });
+
+    server.handle(method.STATE_ROLLBACK, (params) => ({ checkpoint: params.checkpoint, success: true }));
+
+    const ok = await host.sendRequest(method.STATE_ROLLBACK, { featureSet: 'game', checkpoint: 'cp_1' });
+    assert.equal(ok.success, true);
+    await assert.rejects(
+      host.sendRequest(method.STATE_ROLLBACK, { featureSet: 'files', checkpoint: 'cp_1' }),
+      (err: Error & { code?: number }) => err.code === ERR_FEATURE_SET_NOT_ENABLED,
+    );
+    await assert.rejects(
+      host.sendRequest(method.STATE_ROLLBACK, { featureSet: 'chess', checkpoint: 'cp_1' }),
+      (err: Error & { code?: number }) => err.code === ERR_UNKNOWN_FEATURE_SET,
+    );
+
+    host.close();
+    server.close();
+  });
+
+  it('tracks sets announced with featureSets/changed', async () => {
+    const [host, server] = await sessionPair(hostCaps, {
+      version: '0.4',
+      pushEvents: true,
+      featureSets: [{ name: 'lobby', uses: ['push/event'], rollback: false, hostState: false }],
+    });
+
+    const hostSets = FeatureSetRegistry.forSession(host, { initiallyEnabled: false });
+    const serverSets = FeatureSetRegistry.forSession(server);
+
+    const changed = once(hostSets, 'change');
+    serverSets.announce({
+      added: { chat: { name: 'chat', uses: ['push/event'], rollback: false, hostState: false } },
+      removed: ['lobby'],
+    });
+    await changed;
+    assert.deepEqual([...hostSets.declared.keys()], ['chat']);
+    assert.equal(hostSets.isEnabled('chat'), false);
+
+    host.handle(method.PUSH_EVENT, () => ({ accepted: true }));
+    const event = {
+      featureSet: 'chat',
+      eventId: 'evt_1',
+      timestamp: '2026-02-12T00:00:00Z',
+      payload: { content: [] },
+    };
+    await assert.rejects(
+      server.sendRequest(method.PUSH_EVENT, event),
+      (err: Error & { code?: number }) => err.code === ERR_FEATURE_SET_NOT_ENABLED,
+    );
+
+    hostSets.update({ enabled: ['chat'] });
+    const result = await server.sendRequest(method.PUSH_EVENT, event);
+    assert.equal(result.accepted, true);
+
+    assert.throws(() => hostSets.announce({ removed: ['chat'] }));
+
+    host.close();
+    server.close();
+  });
+
+  it('checks scopes and asks the host to elevate out-of-scope access', async () => {
+    const [host, server] = await sessionPair(hostCaps, {
+      version: '0.4',
+      scopedAccess: true,
+      featureSets: [{ name: 'files', uses: ['scope/elevate'], rollback: false, hostState: false }],
+    });
+
+    const hostSets = FeatureSetRegistry.forSession(host);
+    const serverSets = FeatureSetRegistry.forSession(server);
+
+    const changed = once(serverSets, 'change');
+    hostSets.update({ scopes: { files: { whitelist: ['workspace'], blacklist: ['workspace/.env'] } } });
+    await changed;
+
+    assert.equal(serverSets.isInScope('files', 'workspace/src/a.ts'), true);
+    assert.equal(serverSets.isInScope('files', 'workspace/.env'), false);
+    assert.equal(serverSets.isInScope('other', 'workspace/src/a.ts'), false);
+
+    const asked: string[] = [];
+    host.handle(method.SCOPE_ELEVATE, (params) => {
+      asked.push(params.scope.label);
+      return { approved: false, reason: 'secrets stay local' };
+    });
+
+    assert.deepEqual(await serverSets.requestScope('files', 'workspace/src/a.ts'), { approved: true });
+    const denied = await serverSets.requestScope('files', '/etc/passwd');
+    assert.equal(denied.approved, false);
+    assert.equal(denied.reason, 'secrets stay local');
+    assert.deepEqual(asked, ['/etc/passwd']);
+
+    host.close();
+    server.close();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for message framing codecs.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PassThrough } from 'node:stream';
+
+import {
+  McplConnection,
+  ndjsonCodec,
+  contentLengthCodec,
+} from '../src/index.js';
+
+import type { FramingError, FrameTooLargeError } from '../src/index.js';
+
+function decodeAll(
+  codec: typeof ndjsonCodec,
+  chunks: Array<Buffer | string>,
+  maxFrameSize?: number,
+): { frames: string[]; errors: FramingError[] } {
+  const frames: string[] = [];
+  const errors: FramingError[] = [];
+  const decoder = codec.createDecoder((f) => frames.push(f), (e) => errors.push(e), { maxFrameSize });
+  for (const chunk of chunks) decoder.write(chunk);
+  decoder.end();
+  return { frames, errors };
+}
+
+describe('ndjsonCodec', () => {
+  it('splits lines across chunk boundaries and skips blanks', () => {
+    const { frames } = decodeAll(ndjsonCodec, ['{"a":', '1}\r\n\n{"b"', ':2}\n{"c":3}']);
+    assert.deepEqual(frames, ['{"a":1}', '{"b":2}', '{"c":3}']);
+  });
+
+  it('reassembles multi-byte characters split across buffers', () => {
+    const bytes = Buffer.from('{"t":"héllo"}\n', 'utf-8');
+    const split = bytes.indexOf(0xc3) + 1;
+    const { frames } = decodeAll(ndjsonCodec, [bytes.subarray(0, split), bytes.subarray(split)]);
+    assert.deepEqual(frames, ['{"t":"héllo"}']);
+  });
+
+  it('discards oversized lines and recovers the request envelope', () => {
+    const big = JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'push/event', params: { data: 'x'.repeat(500) } });
+    // Split the oversized line across several chunks
+    const { frames, errors } = decodeAll(ndjsonCodec, [big.slice(0, 100), big.slice(100, 300), big.slice(300) + '\n{"ok":1}\n'], 128);
+
+    assert.deepEqual(frames, ['{"ok":1}']);
+    assert.equal(errors.length, 1);
+    const err = errors[0] as FrameTooLargeError;
+    assert.equal(err.name, 'FrameTooLargeError');
+    assert.equal(err.size, big.length);
+    assert.equal(err.id, 7);
+    assert.equal(err.method, 'push/event');
+    assert.equal(err.kind, 'request');
+
+    // The first body key tells a request whose method comes later from a response
+    const late = JSON.stringify({ jsonrpc: '2.0', id: 8, params: { data: 'x'.repeat(500) }, method: 'push/event' });
+    const reply = JSON.stringify({ jsonrpc: '2.0', id: 9, result: { data: 'x'.repeat(500) } });
+    const recovered = decodeAll(ndjsonCodec, [late + '\n' + reply + '\n'], 128).errors as FrameTooLargeError[];
+    assert.deepEqual(recovered.map((e) => [e.id, e.method, e.kind]), [[8, undefined, 'request'], [9, undefined, 'response']]);
+  });
+});
+
+describe('contentLengthCodec', () => {
+  it('round-trips frames with byte-accurate lengths', () => {
+    const messages = ['{"t":"héllo"}', '{"n":1}'];
+    const wire = Buffer.from(messages.map((m) => contentLengthCodec.encode(m)).join(''), 'utf-8');
+
+    // Feed one byte at a time to exercise partial headers and bodies
+    const chunks = Array.from(wire, (b) => Buffer.from([b]));
+    const { frames, errors } = decodeAll(contentLengthCodec, chunks);
+    assert.deepEqual(frames, messages);
+    assert.equal(errors.length, 0);
+  });
+
+  it('reports invalid headers and truncated frames', () => {
+    const { frames, errors } = decodeAll(contentLengthCodec, [
+      'Content-Type: application/json\r\n\r\n',
+      'content-length: 2\r\n\r\n{}',
+      'Content-Length: 10\r\n\r\n{}',
+    ]);
+    assert.deepEqual(frames, ['{}']);
+    assert.equal(errors.length, 2);
+    assert.equal(errors[0].name, 'FramingError');
+  });
+
+  it('skips oversized bodies without buffering them', () => {
+    const big = JSON.stringify({ jsonrpc: '2.0', method: 'test/big', id: 'req-1', params: { data: 'x'.repeat(500) } });
+    const wire = contentLengthCodec.encode(big) + contentLengthCodec.encode('{}');
+    const { frames, errors } = decodeAll(contentLengthCodec, [wire.slice(0, 50), wire.slice(50)], 128);
+
+    assert.deepEqual(frames, ['{}']);
+    assert.equal(errors.length, 1);
+    assert.equal((errors[0] as FrameTooLargeError).id, 'req-1');
+  });
+
+  it('carries connection traffic', async () => {
+    const aToB = new PassThrough();
+    const bToA = new PassThrough();
+
+    const connA = McplConnection.fromStreams(bToA, aToB, { codec: contentLengthCodec });
+    const connB = McplConnection.fromStreams(aToB, bToA, { codec: contentLengthCodec });
+
+    connB.handle('test/echo', (params) => params);
+
+    const result = await connA.sendRequest('test/echo', { text: 'line one\nline two' });
+    assert.deepEqual(result, { text: 'line one\nline two' });
+
+    connA.close();
+    connB.close();
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Shared fixtures for in-memory connections and sessions.
+ */
+
+import { PassThrough } from 'node:stream';
+
+import { McplClientSession, McplConnection, McplServerSession } from '../src/index.js';
+
+import type { McplCapabilities } from '../src/index.js';
+
+export const hostInfo = { name: 'test-host', version: '0.1.0' };
+export const serverInfo = { name: 'test-server', version: '0.1.0' };
+
+/** Create a [host, server] pair of McplConnections over in-memory streams. */
+export function streamPair(): [McplConnection, McplConnection] {
+  const aToB = new PassThrough();
+  const bToA = new PassThrough();
+  return [McplConnection.fromStreams(bToA, aToB), McplConnection.fromStreams(aToB, bToA)];
+}
+
+/** Run the initialize handshake over a fresh `streamPair()`. */
+export async function sessionPair(
+  hostCaps: McplCapabilities,
+  serverCaps: McplCapabilities = hostCaps,
+): Promise<[McplClientSession, McplServerSession]> {
+  const [hostConn, serverConn] = streamPair();
+  return Promise.all([
+    McplClientSession.initialize(hostConn, { clientInfo: hostInfo, capabilities: hostCaps }),
+    McplServerSession.acceptInitialize(serverConn, { serverInfo, capabilities: serverCaps }),
+  ]);
+}
@@ -0,0 +1,207 @@
+/**
+ * Tests for the context hook orchestrator.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { ContextHookOrchestrator, method } from '../src/index.js';
+
+import type {
+  ContextAfterInferenceParams,
+  ContextBeforeInferenceParams,
+  ContextBeforeInferenceResult,
+  McplCapabilities,
+  McplClientSession,
+  RequestHandler,
+} from '../src/index.js';
+
+import { sessionPair } from './helpers.js';
+
+const capabilities: McplCapabilities = { version: '0.4', contextHooks: { beforeInference: true } };
+
+/** Connect a host session to an in-memory server answering beforeInference with `handler`. */
+async function hookServer(
+  handler: RequestHandler<ContextBeforeInferenceParams, ContextBeforeInferenceResult>,
+  serverCaps: McplCapabilities = capabilities,
+): Promise<McplClientSession> {
+  const [host, server] = await sessionPair(capabilities, serverCaps);
+  server.connection.handle(method.CONTEXT_BEFORE_INFERENCE, handler);
+  return host;
+}
+
+const params: ContextBeforeInferenceParams = {
+  inferenceId: 'inf_1',
+  conversationId: 'conv_1',
+  turnIndex: 0,
+  model: { id: 'test-model', vendor: 'test', contextWindow: 400, capabilities: [] },
+};
+
+describe('ContextHookOrchestrator', () => {
+  it('merges injections by position and namespace and skips bad servers', async () => {
+    const memory = await hookServer(() => ({
+      featureSet: 'memory',
+      contextInjections: [
+        { namespace: 'notes', position: 'beforeUser', content: 'remember this' },
+        { namespace: 'persona', position: 'system', content: 'be terse' },
+      ],
+    }));
+    const search = await hookServer(() => ({
+      featureSet: 'search',
+      contextInjections: [
+        { namespace: 'notes', position: 'beforeUser', content: 'search hit' },
+        { namespace: 'docs', position: 'beforeUser', content: [{ type: 'text', text: 'doc' }] },
+      ],
+    }));
+    const failing = await hookServer(() => {
+      throw new Error('boom');
+    });
+    const slow = await hookServer(() => new Promise(() => {}));
+    const noHooks = await hookServer(() => {
+      throw new Error('should not be called');
+    }, { version: '0.4' });
+
+    const orchestrator = new ContextHookOrchestrator({ timeout: 50 });
+    orchestrator.add('memory', memory);
+    orchestrator.add('search', search);
+    orchestrator.add('failing', failing);
+    orchestrator.add('slow', slow);
+    orchestrator.add('noHooks', noHooks);
+
+    const merged = await orchestrator.beforeInference(params);
+    assert.deepEqual(merged.skipped.map((s) => s.server), ['failing', 'slow']);
+    assert.deepEqual(merged.injections.system.map((i) => i.namespace), ['persona']);
+    assert.deepEqual(
+      merged.injections.beforeUser.map((i) => [i.namespace, i.featureSet]),
+      [['docs', 'search'], ['memory:notes', 'memory'], ['search:notes', 'search']],
+    );
+    assert.deepEqual(merged.injections.afterUser, []);
+    assert.equal(merged.budget, 100);
+
+    const first = new ContextHookOrchestrator({ collisions: 'first', timeout: 50 });
+    first.add('memory', memory);
+    first.add('search', search);
+    const firstMerged = await first.beforeInference(params);
+    const notes = firstMerged.injections.beforeUser.find((i) => i.namespace === 'notes')!;
+    assert.equal(notes.content, 'remember this');
+
+    const merging = new ContextHookOrchestrator({ collisions: 'merge' });
+    merging.add('memory', memory);
+    merging.add('search', search);
+    const mergedNotes = (await merging.beforeInference(params)).injections.beforeUser.find(
+      (i) => i.namespace === 'notes',
+    )!;
+    assert.equal(mergedNotes.content, 'remember this\n\nsearch hit');
+    assert.deepEqual(mergedNotes.servers, ['memory', 'search']);
+
+    for (const s of [memory, search, failing, slow, noHooks]) s.close();
+  });
+
+  it('skips servers whose beforeInference result is malformed', async () => {
+    const good = await hookServer(() => ({
+      featureSet: 'memory',
+      contextInjections: [{ namespace: 'notes', position: 'system', content: 'remember this' }],
+    }));
+    const empty = await hookServer(() => undefined as unknown as ContextBeforeInferenceResult);
+    const badPosition = await hookServer(() => ({
+      featureSet: 'search',
+      contextInjections: [{ namespace: 'hits', position: 'middle' as 'system', content: 'x' }],
+    }));
+    const notArray = await hookServer(() => ({
+      featureSet: 'docs',
+      contextInjections: 'oops' as unknown as ContextBeforeInferenceResult['contextInjections'],
+    }));
+
+    const orchestrator = new ContextHookOrchestrator();
+    orchestrator.add('good', good);
+    orchestrator.add('empty', empty);
+    orchestrator.add('badPosition', badPosition);
+    orchestrator.add('notArray', notArray);
+
+    const merged = await orchestrator.beforeInference(params);
+    assert.deepEqual(merged.skipped.map((s) => s.server), ['empty', 'badPosition', 'notArray']);
+    assert.deepEqual(merged.injections.system.map((i) => i.namespace), ['notes']);
+
+    for (const s of [good, empty, badPosition, notArray]) s.close();
+  });
+
+  it('drops injections that exceed the token budget', async () => {
+    const server = await hookServer(() => ({
+      featureSet: 'big',
+      contextInjections: [
+        { namespace: 'a', position: 'system', content: 'x'.repeat(40) },
+        { namespace: 'b', position: 'beforeUser', content: 'x'.repeat(400) },
+        { namespace: 'c', position: 'afterUser', content: 'x'.repeat(20) },
+      ],
+    }));
+
+    const orchestrator = new ContextHookOrchestrator({ tokenBudget: 20 });
+    orchestrator.add('big', server);
+    const merged = await orchestrator.beforeInference(params);
+
+    assert.deepEqual(merged.injections.system.map((i) => i.namespace), ['a']);
+    assert.deepEqual(merged.injections.afterUser.map((i) => i.namespace), ['c']);
+    assert.deepEqual(merged.dropped.map((i) => i.namespace), ['b']);
+    assert.equal(merged.tokens, 15);
+
+    server.close();
+  });
+
+  it('chains blocking afterInference servers and notifies the rest after delivery', async () => {
+    const events: string[] = [];
+
+    async function afterServer(name: string, blocking: boolean, modify?: (text: string) => string) {
+      const [host, server] = await sessionPair(
+        { version: '0.4', contextHooks: { beforeInference: false, afterInference: { blocking: true } } },
+        { version: '0.4', contextHooks: { beforeInference: false, afterInference: { blocking } } },
+      );
+      server.connection.handle(method.CONTEXT_AFTER_INFERENCE, (p) => {
+        events.push(`${name} saw ${p.assistantMessage}`);
+        return { featureSet: name, modifiedResponse: modify?.(p.assistantMessage) };
+      });
+      server.connection.onNotification(method.CONTEXT_AFTER_INFERENCE, (p) => {
+        events.push(`${name} notified ${p.assistantMessage}`);
+      });
+      return host;
+    }
+
+    const logger = await afterServer('logger', false);
+    const filter = await afterServer('filter', true, (t) => t.replace('darn', '****'));
+    const signer = await afterServer('signer', true, (t) => `${t} -- bot`);
+    const noop = await afterServer('noop', true);
+
+    const orchestrator = new ContextHookOrchestrator({ blockingOrder: ['filter'] });
+    orchestrator.add('logger', logger);
+    orchestrator.add('signer', signer);
+    orchestrator.add('noop', noop);
+    orchestrator.add('filter', filter);
+
+    const params: ContextAfterInferenceParams = {
+      inferenceId: 'inf_9',
+      conversationId: 'conv_1',
+      turnIndex: 1,
+      userMessage: 'hi',
+      assistantMessage: 'well darn',
+      model: { id: 'm', vendor: 'v', contextWindow: 1000, capabilities: [] },
+      usage: { inputTokens: 1, outputTokens: 2 },
+    };
+
+    const outcome = await orchestrator.afterInference(params, (response) => void events.push(`delivered ${response}`));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(outcome.response, 'well **** -- bot');
+    assert.deepEqual(events, [
+      'filter saw well darn',
+      'signer saw well ****',
+      'noop saw well **** -- bot',
+      'delivered well **** -- bot',
+      'logger notified well **** -- bot',
+    ]);
+    assert.deepEqual(
+      orchestrator.auditTrail('inf_9').map((m) => [m.featureSet, m.before, m.after]),
+      [['filter', 'well darn', 'well ****'], ['signer', 'well ****', 'well **** -- bot']],
+    );
+
+    for (const s of [logger, filter, signer, noop]) s.close();
+  });
+});
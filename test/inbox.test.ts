@@ -0,0 +1,73 @@
+/**
+ * Tests for the push/event inbox.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { PushEventInbox } from '../src/index.js';
+
+import type { PushEventParams } from '../src/index.js';
+
+function event(eventId: string, timestamp: string, featureSet = 'chat'): PushEventParams {
+  return { featureSet, eventId, timestamp, payload: { content: [{ type: 'text', text: eventId }] } };
+}
+
+describe('PushEventInbox', () => {
+  it('answers duplicates with the original result', async () => {
+    let calls = 0;
+    const inbox = new PushEventInbox({ handler: () => `inf_${++calls}` });
+
+    const first = await inbox.receive(event('e1', '2026-01-01T00:00:00Z'));
+    const again = await inbox.receive(event('e1', '2026-01-01T00:00:00Z'));
+    assert.deepEqual(first, { accepted: true, inferenceId: 'inf_1' });
+    assert.deepEqual(again, first);
+    assert.equal(calls, 1);
+  });
+
+  it('forgets event ids after the dedup window', async () => {
+    let now = 0;
+    let calls = 0;
+    const inbox = new PushEventInbox({ handler: () => void calls++, dedupWindow: 1_000, now: () => now });
+
+    await inbox.receive(event('e1', '2026-01-01T00:00:00Z'));
+    now += 2_000;
+    await inbox.receive(event('e1', '2026-01-01T00:00:00Z'));
+    assert.equal(calls, 2);
+  });
+
+  it('rate limits per feature set', async () => {
+    let now = 0;
+    const inbox = new PushEventInbox({
+      handler: () => undefined,
+      rateLimits: { chat: { burst: 2, perSecond: 1 } },
+      now: () => now,
+    });
+
+    const results = [];
+    for (let i = 0; i < 3; i++) results.push(await inbox.receive(event(`c${i}`, '2026-01-01T00:00:00Z')));
+    assert.deepEqual(results.map((r) => r.accepted), [true, true, false]);
+    assert.match(results[2].reason ?? '', /Rate limit/);
+
+    // Other feature sets are unaffected; the bucket refills over time
+    assert.equal((await inbox.receive(event('g1', '2026-01-01T00:00:00Z', 'game'))).accepted, true);
+    now += 1_000;
+    assert.equal((await inbox.receive(event('c3', '2026-01-01T00:00:00Z'))).accepted, true);
+  });
+
+  it('reorders held events by timestamp', async () => {
+    const order: string[] = [];
+    const inbox = new PushEventInbox({
+      handler: (e) => void order.push(e.eventId),
+      reorderDelay: 30,
+    });
+
+    const results = await Promise.all([
+      inbox.receive(event('late', '2026-01-01T00:00:02Z')),
+      inbox.receive(event('early', '2026-01-01T00:00:01Z')),
+      inbox.receive(event('middle', '2026-01-01T00:00:01.500Z')),
+    ]);
+    assert.deepEqual(order, ['early', 'middle', 'late']);
+    assert.ok(results.every((r) => r.accepted));
+  });
+});
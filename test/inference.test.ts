@@ -0,0 +1,189 @@
+/**
+ * Tests for the inference broker.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { PassThrough } from 'node:stream';
+
+import {
+  EchoInferenceProvider,
+  ERR_INVALID_PARAMS,
+  ERR_INVALID_REQUEST,
+  InferenceBroker,
+  McplConnection,
+  method,
+  streamInference,
+} from '../src/index.js';
+
+import type { InferencePreferences, InferenceProvider, InferenceRequestParams } from '../src/index.js';
+
+import { sessionPair, streamPair } from './helpers.js';
+
+function request(overrides: Partial<InferenceRequestParams> = {}): InferenceRequestParams {
+  return {
+    featureSet: 'chat',
+    messages: [
+      { role: 'system', content: 'be brief' },
+      { role: 'user', content: 'one two three four five' },
+    ],
+    ...overrides,
+  };
+}
+
+/** Host and server sessions, with or without inference streaming on both sides. */
+function sessions(streaming: boolean) {
+  return sessionPair({ version: '0.4', inferenceRequest: streaming ? { streaming: true } : true });
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const pieces: string[] = [];
+  for await (const piece of stream) pieces.push(piece);
+  return pieces;
+}
+
+/** Provider that records the preferences it was called with. */
+function recorder(name: string, seen: Array<[string, InferencePreferences]>): InferenceProvider {
+  return {
+    name,
+    complete: (_messages, preferences) => {
+      seen.push([name, preferences]);
+      return { content: name, model: name, finishReason: 'stop', usage: { inputTokens: 0, outputTokens: 0 } };
+    },
+  };
+}
+
+describe('EchoInferenceProvider', () => {
+  it('echoes the last user message deterministically', () => {
+    const echo = new EchoInferenceProvider();
+    assert.deepEqual(echo.complete(request().messages, {}), {
+      content: 'one two three four five',
+      model: 'echo-1',
+      finishReason: 'stop',
+      usage: { inputTokens: 7, outputTokens: 5 },
+    });
+    const cut = echo.complete(request().messages, { maxTokens: 2 });
+    assert.equal(cut.content, 'one two');
+    assert.equal(cut.finishReason, 'length');
+  });
+});
+
+describe('InferenceBroker', () => {
+  it('routes by policy and applies feature set defaults', async () => {
+    const seen: Array<[string, InferencePreferences]> = [];
+    const broker = new InferenceBroker({
+      providers: [recorder('fast', seen), recorder('smart', seen), recorder('special', seen)],
+      routes: { research: 'smart' },
+      route: (params) => (params.conversationId === 'vip' ? 'special' : undefined),
+      defaults: { maxTokens: 100, temperature: 0.7 },
+      featureSetDefaults: { research: { maxTokens: 2000 } },
+    });
+
+    await broker.complete(request());
+    await broker.complete(request({ featureSet: 'research', preferences: { temperature: 0 } }));
+    await broker.complete(request({ conversationId: 'vip' }));
+
+    assert.deepEqual(seen, [
+      ['fast', { maxTokens: 100, temperature: 0.7 }],
+      ['smart', { maxTokens: 2000, temperature: 0 }],
+      ['special', { maxTokens: 100, temperature: 0.7 }],
+    ]);
+  });
+
+  it('answers inference/request and rejects invalid params', async () => {
+    const [host, server] = streamPair();
+
+    const broker = new InferenceBroker({ providers: [new EchoInferenceProvider()], defaults: { maxTokens: 3 } });
+    broker.attach(host);
+
+    const result = await server.sendRequest(method.INFERENCE_REQUEST, request());
+    assert.equal(result.content, 'one two three');
+    assert.equal(result.finishReason, 'length');
+
+    const invalid = [
+      request({ messages: [] }),
+      request({ messages: [{ role: 'user' } as never] }),
+      request({ preferences: { maxTokens: -1 } }),
+      request({ preferences: { temperature: 'hot' as never } }),
+    ];
+    for (const params of invalid) {
+      await assert.rejects(server.sendRequest(method.INFERENCE_REQUEST, params), (err: Error & { code?: number }) => {
+        assert.equal(err.code, ERR_INVALID_PARAMS);
+        return true;
+      });
+    }
+
+    host.close();
+    server.close();
+  });
+});
+
+describe('streamInference', () => {
+  it('streams chunks from the broker when negotiated', async () => {
+    const [host, server] = await sessions(true);
+    new InferenceBroker({ providers: [new EchoInferenceProvider()] }).attach(host);
+
+    const stream = streamInference(server, request());
+    assert.equal(stream.streaming, true);
+    assert.deepEqual(await collect(stream), ['one', ' two', ' three', ' four', ' five']);
+    assert.equal((await stream.result).content, 'one two three four five');
+    assert.deepEqual(stream.missing, []);
+
+    host.close();
+    server.close();
+  });
+
+  it('reorders chunks by index and fills gaps from the final result', async () => {
+    const [host, server] = streamPair();
+    host.handle(method.INFERENCE_REQUEST, async (_params, ctx) => {
+      const requestId = ctx.id as number;
+      for (const [index, delta] of [[2, 'c'], [0, 'a'], [1, 'b'], [1, 'b'], [4, 'e']] as const) {
+        host.sendNotification(method.INFERENCE_CHUNK, { requestId, index, delta });
+      }
+      return { content: 'abcde', model: 'm', finishReason: 'stop', usage: { inputTokens: 0, outputTokens: 5 } };
+    });
+
+    const stream = streamInference(server, request());
+    assert.deepEqual(await collect(stream), ['a', 'b', 'c', 'de']);
+    assert.deepEqual(stream.missing, [3]);
+
+    host.close();
+    server.close();
+  });
+
+  it('refuses to stream requests with non-numeric ids', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const host = McplConnection.fromStreams(input, output);
+    new InferenceBroker({ providers: [new EchoInferenceProvider()] }).attach(host);
+
+    const params = request({ stream: true });
+    input.write(JSON.stringify({ jsonrpc: '2.0', id: 'req-1', method: method.INFERENCE_REQUEST, params }) + '\n');
+    const [reply] = await once(output, 'data');
+    assert.deepEqual(JSON.parse(String(reply)), {
+      jsonrpc: '2.0',
+      id: 'req-1',
+      error: { code: ERR_INVALID_REQUEST, message: 'Streaming inference requires a numeric request id' },
+    });
+
+    host.close();
+  });
+
+  it('falls back to a single piece when streaming was not negotiated', async () => {
+    const [host, server] = await sessions(false);
+    const seen: InferenceRequestParams[] = [];
+    host.handle(method.INFERENCE_REQUEST, (params) => {
+      seen.push(params);
+      return { content: 'whole', model: 'm', finishReason: 'stop', usage: { inputTokens: 0, outputTokens: 1 } };
+    });
+
+    const stream = streamInference(server, request({ stream: true }));
+    assert.equal(stream.streaming, false);
+    assert.deepEqual(await collect(stream), ['whole']);
+    assert.equal(seen[0].stream, false);
+
+    host.close();
+    server.close();
+  });
+});
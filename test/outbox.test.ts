@@ -0,0 +1,159 @@
+/**
+ * Tests for the push/event outbox.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { once } from 'node:events';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { CapabilityError, PushEventOutbox, RpcError, method } from '../src/index.js';
+
+import { sessionPair, streamPair } from './helpers.js';
+
+const payload = { content: [{ type: 'text' as const, text: 'hi' }] };
+
+describe('PushEventOutbox', () => {
+  it('holds events until a connection is attached and retries failures', async () => {
+    const outbox = new PushEventOutbox({ backoff: { initialDelay: 10 } });
+    await outbox.push({ featureSet: 'chat', eventId: 'e1', payload });
+    await outbox.push({ featureSet: 'chat', eventId: 'e2', payload });
+    assert.deepEqual(outbox.pending.map((e) => e.eventId), ['e1', 'e2']);
+
+    const [host, server] = streamPair();
+    const received: string[] = [];
+    let failures = 1;
+    host.handle(method.PUSH_EVENT, (params) => {
+      if (failures-- > 0) throw new RpcError(-32000, 'busy');
+      received.push(params.eventId);
+      return { accepted: true };
+    });
+
+    const retries: number[] = [];
+    outbox.on('retry', (_event, _err, delay) => retries.push(delay));
+    const delivered: string[] = [];
+    outbox.on('delivered', (event) => delivered.push(event.eventId));
+
+    outbox.attach(server);
+    while (delivered.length < 2) await once(outbox, 'delivered');
+
+    assert.deepEqual(received, ['e1', 'e2']);
+    assert.deepEqual(retries, [10]);
+    assert.deepEqual(outbox.pending, []);
+
+    await outbox.close();
+    host.close();
+    server.close();
+  });
+
+  it('pauses on disconnect and replays from disk on a new connection', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpl-outbox-'));
+    const file = path.join(dir, 'outbox.json');
+
+    try {
+      const [host1, server1] = streamPair();
+      const first = await PushEventOutbox.load({ file });
+      first.attach(server1);
+      host1.close();
+      server1.close();
+
+      const queued = await first.push({ featureSet: 'chat', payload });
+      assert.ok(queued.eventId.startsWith('evt_'));
+      await first.close();
+
+      const second = await PushEventOutbox.load({ file });
+      assert.deepEqual(second.pending.map((e) => e.eventId), [queued.eventId]);
+
+      const [host2, server2] = streamPair();
+      host2.handle(method.PUSH_EVENT, () => ({ accepted: false, reason: 'muted' }));
+      second.attach(server2);
+      const [event, result] = await once(second, 'delivered');
+      assert.equal(event.eventId, queued.eventId);
+      assert.deepEqual(result, { accepted: false, reason: 'muted' });
+
+      await second.close();
+      const saved = JSON.parse(await fs.readFile(file, 'utf-8'));
+      assert.deepEqual(saved.entries, []);
+      host2.close();
+      server2.close();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports write failures while sending instead of rejecting', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpl-outbox-'));
+    const file = path.join(dir, 'outbox.json');
+    const [host, server] = streamPair();
+    try {
+      const outbox = await PushEventOutbox.load({ file });
+      await outbox.push({ featureSet: 'chat', eventId: 'e1', payload });
+      // The next write after delivery fails: the directory is gone
+      await fs.rm(dir, { recursive: true, force: true });
+
+      const failures: Error[] = [];
+      outbox.on('saveFailed', (err) => failures.push(err));
+      host.handle(method.PUSH_EVENT, () => ({ accepted: true }));
+      outbox.attach(server);
+      const [event] = await once(outbox, 'delivered');
+
+      assert.equal(event.eventId, 'e1');
+      assert.equal(failures.length, 1);
+      assert.deepEqual(outbox.pending, []);
+    } finally {
+      host.close();
+      server.close();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('pauses instead of retrying when the session did not negotiate pushEvents', async () => {
+    const outbox = new PushEventOutbox({ backoff: { initialDelay: 10 } });
+    await outbox.push({ featureSet: 'chat', eventId: 'e1', payload });
+    const retries: Error[] = [];
+    outbox.on('retry', (_event, err) => retries.push(err));
+
+    const [host1, server1] = await sessionPair({ version: '0.4' });
+    outbox.attach(server1);
+    const [paused] = await once(outbox, 'paused');
+    assert.ok(paused instanceof CapabilityError);
+    assert.deepEqual(paused.missing, ['pushEvents']);
+    assert.deepEqual(retries, []);
+    assert.deepEqual(outbox.pending.map((e) => e.eventId), ['e1']);
+
+    const [host2, server2] = await sessionPair({ version: '0.4', pushEvents: true });
+    host2.connection.handle(method.PUSH_EVENT, () => ({ accepted: true }));
+    outbox.attach(server2);
+    const [event] = await once(outbox, 'delivered');
+    assert.equal(event.eventId, 'e1');
+
+    await outbox.close();
+    for (const s of [host1, server1, host2, server2]) s.close();
+  });
+
+  it('expires old entries and caps the queue size', async () => {
+    let now = 0;
+    const outbox = new PushEventOutbox({ maxEntries: 2, maxAge: 1_000, now: () => now });
+    const dropped: string[] = [];
+    const expired: string[] = [];
+    outbox.on('dropped', (e) => dropped.push(e.eventId));
+    outbox.on('expired', (e) => expired.push(e.eventId));
+
+    for (const id of ['a', 'b', 'c']) await outbox.push({ featureSet: 'chat', eventId: id, payload });
+    assert.deepEqual(dropped, ['a']);
+
+    now += 2_000;
+    const [host, server] = streamPair();
+    host.handle(method.PUSH_EVENT, () => ({ accepted: true }));
+    outbox.attach(server);
+    await outbox.push({ featureSet: 'chat', eventId: 'd', payload });
+    await once(outbox, 'delivered');
+    assert.deepEqual(expired, ['b', 'c']);
+
+    await outbox.close();
+    host.close();
+    server.close();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for JSON Patch application and diffing.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { JsonPatchError, applyPatch, diff, formatPointer, parsePointer } from '../src/index.js';
+
+import type { JsonPatchOperation } from '../src/index.js';
+
+describe('JSON Pointer', () => {
+  it('escapes ~ and / in reference tokens', () => {
+    assert.deepEqual(parsePointer(''), []);
+    assert.deepEqual(parsePointer('/a~1b/m~0n/~01'), ['a/b', 'm~n', '~1']);
+    assert.equal(formatPointer(['a/b', 'm~n', 0]), '/a~1b/m~0n/0');
+    assert.throws(() => parsePointer('a'), SyntaxError);
+    assert.throws(() => parsePointer('/a~2'), SyntaxError);
+  });
+});
+
+describe('applyPatch', () => {
+  it('applies every operation kind', () => {
+    const doc = { a: { b: 1 }, list: [1, 2, 3], 'x/y': true };
+    const result = applyPatch(doc, [
+      { op: 'add', path: '/a/c', value: 2 },
+      { op: 'add', path: '/list/1', value: 9 },
+      { op: 'add', path: '/list/-', value: 4 },
+      { op: 'remove', path: '/list/0' },
+      { op: 'replace', path: '/x~1y', value: false },
+      { op: 'move', from: '/a/b', path: '/moved' },
+      { op: 'copy', from: '/a', path: '/copy' },
+      { op: 'test', path: '/list', value: [9, 2, 3, 4] },
+    ]);
+
+    assert.deepEqual(result, { a: { c: 2 }, list: [9, 2, 3, 4], 'x/y': false, moved: 1, copy: { c: 2 } });
+    assert.deepEqual(doc, { a: { b: 1 }, list: [1, 2, 3], 'x/y': true });
+  });
+
+  it('replaces the whole document at the root pointer', () => {
+    assert.deepEqual(applyPatch({ a: 1 }, [{ op: 'replace', path: '', value: [1] }]), [1]);
+  });
+
+  it('is all-or-nothing and reports the failing operation', () => {
+    const doc = { a: 1 };
+    const patch: JsonPatchOperation[] = [
+      { op: 'add', path: '/b', value: 2 },
+      { op: 'test', path: '/a', value: 2 },
+    ];
+    assert.throws(
+      () => applyPatch(doc, patch),
+      (err: JsonPatchError) => err instanceof JsonPatchError && err.index === 1 && err.operation.op === 'test',
+    );
+    assert.deepEqual(doc, { a: 1 });
+
+    const failures: JsonPatchOperation[][] = [
+      [{ op: 'remove', path: '/missing' }],
+      [{ op: 'replace', path: '/missing', value: 1 }],
+      [{ op: 'add', path: '/missing/child', value: 1 }],
+      [{ op: 'add', path: '/list/5', value: 1 }],
+      [{ op: 'add', path: '/list/01', value: 1 }],
+      [{ op: 'add', path: '/a' }],
+      [{ op: 'move', from: '/obj', path: '/obj/inner' }],
+    ];
+    for (const patch of failures) {
+      assert.throws(() => applyPatch({ a: 1, list: [], obj: {} }, patch), JsonPatchError);
+    }
+  });
+
+  it('sets __proto__ as a plain key', () => {
+    const result = applyPatch<Record<string, unknown>>({}, [{ op: 'add', path: '/__proto__', value: { polluted: true } }]);
+    assert.equal(Object.hasOwn(result, '__proto__'), true);
+    assert.equal(({} as Record<string, unknown>).polluted, undefined);
+  });
+});
+
+describe('diff', () => {
+  it('produces a patch that reproduces the target', () => {
+    const cases: Array<[unknown, unknown]> = [
+      [{ a: 1, b: { c: [1, 2, 3] } }, { a: 2, b: { c: [1, 5] }, d: 'new' }],
+      [[1, 2], [1, 2, { x: 1 }, 4]],
+      [{ 'a/b': 1, '~': 2 }, { 'a/b': 3 }],
+      [1, { a: 1 }],
+      [{ same: true }, { same: true }],
+    ];
+    for (const [a, b] of cases) {
+      assert.deepEqual(applyPatch(a, diff(a, b)), b);
+    }
+    assert.deepEqual(diff({ same: true }, { same: true }), []);
+    assert.deepEqual(diff({ a: 1 }, { a: 2 }), [{ op: 'replace', path: '/a', value: 2 }]);
+  });
+});
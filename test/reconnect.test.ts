@@ -0,0 +1,174 @@
+/**
+ * Tests for ReconnectingMcplConnection.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { once } from 'node:events';
+import type * as net from 'node:net';
+
+import {
+  ConnectionClosedError,
+  McplServer,
+  McplServerSession,
+  ReconnectingMcplConnection,
+  method,
+} from '../src/index.js';
+
+import type { FeatureSetsUpdateParams, McplCapabilities, McplConnection } from '../src/index.js';
+
+import { hostInfo, serverInfo } from './helpers.js';
+
+const capabilities: McplCapabilities = { version: '0.4', channels: true };
+
+interface ServerLog {
+  connections: McplConnection[];
+  updates: FeatureSetsUpdateParams[];
+  opened: string[];
+}
+
+/** An MCPL server that records what each client sends it. */
+async function startServer(onConnection?: (conn: McplConnection, index: number) => void) {
+  const server = await McplServer.listenTcp(0, '127.0.0.1');
+  const log: ServerLog = { connections: [], updates: [], opened: [] };
+
+  server.on('connection', (conn) => {
+    const index = log.connections.push(conn);
+    conn.onNotification(method.FEATURE_SETS_UPDATE, (params) => void log.updates.push(params));
+    conn.handle(method.CHANNELS_OPEN, (params) => {
+      log.opened.push(params.type);
+      return {
+        channel: { id: `${params.type}-${index}`, type: params.type, label: 'test', direction: 'bidirectional' as const },
+      };
+    });
+    onConnection?.(conn, index);
+    McplServerSession.acceptInitialize(conn, {
+      serverInfo,
+      capabilities,
+    }).catch(() => {});
+  });
+
+  const { port } = server.address() as net.AddressInfo;
+  return { server, port, log };
+}
+
+describe('ReconnectingMcplConnection', () => {
+  it('reconnects and restores feature sets and channels', async () => {
+    const { server, port, log } = await startServer();
+    const client = await ReconnectingMcplConnection.tcp(port, '127.0.0.1', {
+      clientInfo: hostInfo,
+      capabilities,
+      backoff: { initialDelay: 10 },
+    });
+
+    client.sendNotification(method.FEATURE_SETS_UPDATE, { enabled: ['chat'] });
+    client.sendNotification(method.FEATURE_SETS_UPDATE, { disabled: ['files'] });
+    await client.sendRequest(method.CHANNELS_OPEN, { type: 'discord', address: {} });
+    assert.deepEqual(client.openChannels.map((c) => c.id), ['discord-1']);
+
+    const events: string[] = [];
+    client.on('disconnected', () => events.push('disconnected'));
+    client.on('reconnecting', (attempt) => events.push(`reconnecting ${attempt}`));
+    const reconnected = once(client, 'reconnected');
+
+    log.connections[0].close();
+    await reconnected;
+
+    assert.deepEqual(events, ['disconnected', 'reconnecting 1']);
+    assert.equal(client.isConnected, true);
+    assert.deepEqual(log.opened, ['discord', 'discord']);
+    assert.deepEqual(client.openChannels.map((c) => c.id), ['discord-2']);
+    assert.deepEqual(log.updates.at(-1), { enabled: ['chat'], disabled: ['files'] });
+
+    client.close();
+    await server.close();
+  });
+
+  it('keeps every channel when a reopen attempt fails partway', async () => {
+    const { server, port, log } = await startServer((conn, index) => {
+      if (index !== 2) return;
+      // The first reconnect re-opens discord, then fails on slack
+      conn.handle(method.CHANNELS_OPEN, (params) => {
+        log.opened.push(params.type);
+        if (params.type === 'slack') throw new Error('slack unavailable');
+        return {
+          channel: { id: `${params.type}-${index}`, type: params.type, label: 'test', direction: 'bidirectional' as const },
+        };
+      });
+    });
+    const client = await ReconnectingMcplConnection.tcp(port, '127.0.0.1', {
+      clientInfo: hostInfo,
+      capabilities,
+      backoff: { initialDelay: 10 },
+    });
+
+    await client.sendRequest(method.CHANNELS_OPEN, { type: 'discord', address: {} });
+    await client.sendRequest(method.CHANNELS_OPEN, { type: 'slack', address: {} });
+
+    const attempts: number[] = [];
+    client.on('reconnecting', (attempt) => attempts.push(attempt));
+    const reconnected = once(client, 'reconnected');
+    log.connections[0].close();
+    await reconnected;
+
+    assert.deepEqual(attempts, [1, 2]);
+    assert.deepEqual(log.opened, ['discord', 'slack', 'discord', 'slack', 'discord', 'slack']);
+    assert.deepEqual(client.openChannels.map((c) => c.id), ['discord-3', 'slack-3']);
+
+    client.close();
+    await server.close();
+  });
+
+  it('retries idempotent in-flight requests and rejects the rest', async () => {
+    const { server, port } = await startServer((conn, index) => {
+      conn.handle(method.CHANNELS_LIST, () => {
+        if (index === 1) {
+          // Drop the first connection instead of answering
+          setImmediate(() => conn.close());
+          return new Promise<never>(() => {});
+        }
+        return { channels: [] };
+      });
+    });
+    const client = await ReconnectingMcplConnection.tcp(port, '127.0.0.1', {
+      clientInfo: hostInfo,
+      capabilities,
+      backoff: { initialDelay: 10 },
+    });
+
+    const [idempotent, plain] = await Promise.allSettled([
+      client.sendRequest(method.CHANNELS_LIST, undefined, { idempotent: true }),
+      client.sendRequest(method.CHANNELS_LIST),
+    ]);
+    assert.deepEqual(idempotent, { status: 'fulfilled', value: { channels: [] } });
+    assert.equal(plain.status, 'rejected');
+    assert.ok((plain as PromiseRejectedResult).reason instanceof ConnectionClosedError);
+
+    client.close();
+    await server.close();
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const { server, port } = await startServer((conn) => {
+      conn.handle(method.CHANNELS_LIST, () => new Promise<never>(() => {}));
+    });
+    const client = await ReconnectingMcplConnection.tcp(port, '127.0.0.1', {
+      clientInfo: hostInfo,
+      capabilities,
+      backoff: { initialDelay: 5 },
+      maxAttempts: 2,
+    });
+
+    const attempts: number[] = [];
+    client.on('reconnecting', (attempt) => attempts.push(attempt));
+    const gaveUp = once(client, 'gaveUp');
+    const waiting = client.sendRequest(method.CHANNELS_LIST, undefined, { idempotent: true });
+
+    await server.close();
+    await gaveUp;
+
+    assert.deepEqual(attempts, [1, 2]);
+    assert.equal(client.isClosed, true);
+    await assert.rejects(waiting, ConnectionClosedError);
+  });
+});
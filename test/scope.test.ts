@@ -0,0 +1,45 @@
+/**
+ * Tests for scope pattern matching.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { ScopeMatcher, isResourceInScope, matchesScopePattern } from '../src/index.js';
+
+describe('matchesScopePattern', () => {
+  it('treats plain patterns as segment-aware prefixes', () => {
+    assert.equal(matchesScopePattern('src', 'src'), true);
+    assert.equal(matchesScopePattern('src', 'src/a.ts'), true);
+    assert.equal(matchesScopePattern('src', 'srcfoo'), false);
+    assert.equal(matchesScopePattern('discord:', 'discord:123'), true);
+    assert.equal(matchesScopePattern('discord:123', 'discord:1234'), false);
+    assert.equal(matchesScopePattern('https://example.com/', 'https://example.com/a'), true);
+  });
+
+  it('supports *, ** and ? globs', () => {
+    assert.equal(matchesScopePattern('src/*.ts', 'src/a.ts'), true);
+    assert.equal(matchesScopePattern('src/*.ts', 'src/lib/a.ts'), false);
+    assert.equal(matchesScopePattern('src/**/*.ts', 'src/a.ts'), true);
+    assert.equal(matchesScopePattern('src/**/*.ts', 'src/lib/deep/a.ts'), true);
+    assert.equal(matchesScopePattern('src/**', 'src/lib/a.js'), true);
+    assert.equal(matchesScopePattern('log-?.txt', 'log-1.txt'), true);
+    assert.equal(matchesScopePattern('log-?.txt', 'log-10.txt'), false);
+    assert.equal(matchesScopePattern('a.(b)*', 'a.(b)c'), true);
+    assert.equal(matchesScopePattern('a.(b)*', 'ax(b)c'), false);
+  });
+});
+
+describe('ScopeMatcher', () => {
+  it('lets the blacklist win and allows everything with an empty whitelist', () => {
+    const matcher = new ScopeMatcher({ whitelist: ['src', 'docs/*.md'], blacklist: ['src/secret'] });
+    assert.equal(matcher.allows('src/index.ts'), true);
+    assert.equal(matcher.allows('docs/readme.md'), true);
+    assert.equal(matcher.allows('src/secret/key.pem'), false);
+    assert.equal(matcher.allows('package.json'), false);
+
+    assert.equal(isResourceInScope({ blacklist: ['*.pem'] }, 'notes.txt'), true);
+    assert.equal(isResourceInScope({ whitelist: [], blacklist: ['*.pem'] }, 'key.pem'), false);
+    assert.equal(isResourceInScope(undefined, 'anything'), true);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for McplServer.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as net from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { McplConnection, McplServer } from '../src/index.js';
+
+function dial(target: { port: number } | { path: string }): Promise<McplConnection> {
+  return new Promise((resolve, reject) => {
+    const socket = 'path' in target
+      ? net.createConnection(target.path)
+      : net.createConnection({ host: '127.0.0.1', port: target.port });
+    socket.once('connect', () => resolve(McplConnection.fromTcp(socket)));
+    socket.once('error', reject);
+  });
+}
+
+function nextConnection(server: McplServer): Promise<McplConnection> {
+  return new Promise((resolve) => server.once('connection', resolve));
+}
+
+describe('McplServer', () => {
+  it('accepts multiple TCP clients and tracks them', async () => {
+    const server = await McplServer.listenTcp(0, '127.0.0.1');
+    const { port } = server.address() as net.AddressInfo;
+
+    let accepted = 0;
+    server.on('connection', (conn) => {
+      const index = ++accepted;
+      conn.handle('test/whoami', () => `client-${index}`);
+    });
+
+    const acceptedA = nextConnection(server);
+    const a = await dial({ port });
+    await acceptedA;
+    const acceptedB = nextConnection(server);
+    const b = await dial({ port });
+    await acceptedB;
+
+    assert.equal(server.connections.size, 2);
+    assert.equal(await a.sendRequest('test/whoami'), 'client-1');
+
+    a.close();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.equal(server.connections.size, 1);
+
+    await server.close();
+    assert.equal(server.isListening, false);
+    assert.equal(server.connections.size, 0);
+    b.close();
+  });
+
+  it('enforces maxConnections', async () => {
+    const server = await McplServer.listenTcp(0, '127.0.0.1', { maxConnections: 1 });
+    const { port } = server.address() as net.AddressInfo;
+
+    const accepted = nextConnection(server);
+    const first = await dial({ port });
+    await accepted;
+
+    const rejected = new Promise((resolve) => server.once('rejected', resolve));
+    const second = await dial({ port });
+    await rejected;
+
+    const closed = new Promise<void>((resolve) => second.on('close', resolve));
+    await closed;
+    assert.equal(second.isClosed, true);
+    assert.equal(server.connections.size, 1);
+
+    first.close();
+    await server.close();
+  });
+
+  it('listens on a Unix socket and drains on close', async () => {
+    const socketPath = path.join(os.tmpdir(), `mcpl-test-${process.pid}-${Date.now()}.sock`);
+    const server = await McplServer.listenUnix(socketPath);
+
+    const accepted = nextConnection(server);
+    const client = await dial({ path: socketPath });
+    const serverConn = await accepted;
+
+    client.sendNotification('test/hello', {});
+    const msg = await serverConn.nextMessage();
+    assert.equal(msg.type, 'notification');
+
+    // The client hangs up during the drain window; close() doesn't wait the full timeout
+    const started = Date.now();
+    const closing = server.close({ drainTimeout: 5_000 });
+    setTimeout(() => client.close(), 20);
+    await closing;
+
+    assert.ok(Date.now() - started < 1_000);
+    assert.equal(serverConn.isClosed, true);
+  });
+
+  it('rejects listenTcp when the port is already in use', async () => {
+    const first = await McplServer.listenTcp(0, '127.0.0.1');
+    const { port } = first.address() as net.AddressInfo;
+
+    await assert.rejects(McplServer.listenTcp(port, '127.0.0.1'), { code: 'EADDRINUSE' });
+
+    await first.close();
+  });
+});
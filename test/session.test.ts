@@ -0,0 +1,139 @@
+/**
+ * Tests for the initialize handshake helpers.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import {
+  McplClientSession,
+  McplServerSession,
+  ERR_INVALID_PARAMS,
+  ERR_FEATURE_SET_NOT_ENABLED,
+  method,
+} from '../src/index.js';
+
+import type { McplCapabilities } from '../src/index.js';
+
+import { hostInfo, serverInfo, sessionPair, streamPair } from './helpers.js';
+
+describe('McplSession', () => {
+  it('negotiates the intersection of capabilities', async () => {
+    const hostCaps: McplCapabilities = {
+      version: '0.4',
+      pushEvents: true,
+      channels: true,
+      inferenceRequest: { streaming: true },
+      contextHooks: { beforeInference: true, afterInference: { blocking: true } },
+    };
+    const serverCaps: McplCapabilities = {
+      version: '0.4',
+      pushEvents: true,
+      rollback: true,
+      inferenceRequest: true,
+      contextHooks: { beforeInference: true, afterInference: { blocking: true } },
+      featureSets: [{ name: 'game', uses: [], rollback: true, hostState: false }],
+    };
+
+    const [host, server] = await sessionPair(hostCaps, serverCaps);
+
+    assert.equal(host.role, 'host');
+    assert.equal(host.peerInfo.name, 'test-server');
+    assert.equal(server.peerInfo.name, 'test-host');
+    assert.equal(host.protocolVersion, '2024-11-05');
+
+    for (const session of [host, server]) {
+      const n = session.negotiated;
+      assert.equal(n.pushEvents, true);
+      assert.equal(n.channels, false);
+      assert.equal(n.rollback, false);
+      assert.equal(n.inferenceRequest, true);
+      assert.equal(n.inferenceStreaming, false);
+      assert.equal(n.contextHooks.beforeInference, true);
+      assert.deepEqual(n.contextHooks.afterInference, { blocking: true });
+      assert.deepEqual(n.featureSets.map((f) => f.name), ['game']);
+    }
+
+    host.close();
+    server.close();
+  });
+
+  it('rejects an incompatible MCPL version', async () => {
+    const [hostConn, serverConn] = streamPair();
+
+    const [hostResult, serverResult] = await Promise.allSettled([
+      McplClientSession.initialize(hostConn, { clientInfo: hostInfo, capabilities: { version: '0.3' } }),
+      McplServerSession.acceptInitialize(serverConn, { serverInfo, capabilities: { version: '0.4' } }),
+    ]);
+
+    assert.equal(hostResult.status, 'rejected');
+    assert.equal((hostResult as PromiseRejectedResult).reason.code, ERR_INVALID_PARAMS);
+    assert.equal(serverResult.status, 'rejected');
+    assert.equal((serverResult as PromiseRejectedResult).reason.name, 'HandshakeError');
+
+    hostConn.close();
+    serverConn.close();
+  });
+
+  it('rejects a protocol version the host does not support', async () => {
+    const [hostConn, serverConn] = streamPair();
+
+    const serverSession = McplServerSession.acceptInitialize(serverConn, {
+      serverInfo,
+      capabilities: { version: '0.4' },
+      protocolVersions: ['2099-01-01'],
+      timeout: 100,
+    });
+
+    await assert.rejects(
+      McplClientSession.initialize(hostConn, { clientInfo: hostInfo, capabilities: { version: '0.4' } }),
+      (err: Error) => err.name === 'HandshakeError' && err.message.includes('2099-01-01'),
+    );
+
+    // The host never sends notifications/initialized
+    await assert.rejects(serverSession, (err: Error) => err.name === 'HandshakeError');
+
+    hostConn.close();
+    serverConn.close();
+  });
+
+  it('gates methods on negotiated capabilities', async () => {
+    const [host, server] = await sessionPair(
+      { version: '0.4', pushEvents: false, rollback: true },
+      { version: '0.4', pushEvents: true, rollback: false },
+    );
+
+    assert.equal(server.isAllowed(method.PUSH_EVENT), false);
+    assert.equal(server.isAllowed(method.FEATURE_SETS_CHANGED), true);
+
+    // Outgoing: refused locally before anything is sent
+    await assert.rejects(
+      server.sendRequest(method.PUSH_EVENT, {
+        featureSet: 'lobby',
+        eventId: 'evt_1',
+        timestamp: '2026-02-12T00:00:00Z',
+        payload: { content: [] },
+      }),
+      (err: Error & { missing?: string[] }) => {
+        assert.equal(err.name, 'CapabilityError');
+        assert.deepEqual(err.missing, ['pushEvents']);
+        return true;
+      },
+    );
+
+    // Incoming: a peer bypassing the session gets ERR_FEATURE_SET_NOT_ENABLED
+    let handled = false;
+    server.handle(method.STATE_ROLLBACK, (params) => {
+      handled = true;
+      return { checkpoint: params.checkpoint, success: true };
+    });
+    await assert.rejects(
+      host.connection.sendRequest(method.STATE_ROLLBACK, { featureSet: 'game', checkpoint: 'cp_1' }),
+      (err: Error & { code?: number }) => err.code === ERR_FEATURE_SET_NOT_ENABLED,
+    );
+    assert.equal(handled, false);
+
+    host.close();
+    server.close();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for inference usage accounting and quotas.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import {
+  EchoInferenceProvider,
+  ERR_QUOTA_EXCEEDED,
+  InferenceBroker,
+  InferenceUsageLedger,
+  method,
+} from '../src/index.js';
+
+import type { UsageSnapshot } from '../src/index.js';
+
+import { streamPair } from './helpers.js';
+
+const usage = (inputTokens: number, outputTokens: number) => ({ inputTokens, outputTokens });
+
+describe('InferenceUsageLedger', () => {
+  it('enforces quotas over a rolling window', () => {
+    let now = 0;
+    const ledger = new InferenceUsageLedger({
+      quotas: [{ featureSet: 'chat', per: ['server'], window: 60_000, maxTokens: 100 }],
+      now: () => now,
+    });
+    const a = { server: 'a', featureSet: 'chat' };
+
+    ledger.record(a, usage(30, 30));
+    now = 10_000;
+    ledger.record(a, usage(20, 20));
+    assert.equal(ledger.remaining(a), 0);
+
+    const err = ledger.check(a);
+    assert.equal(err?.code, ERR_QUOTA_EXCEEDED);
+    assert.deepEqual(err?.data, { quota: ledger.quotas[0], used: 100, inFlight: 0, retryAfter: 50_000 });
+
+    // Counted per server, and other feature sets are not limited
+    assert.equal(ledger.check({ server: 'b', featureSet: 'chat' }), undefined);
+    assert.equal(ledger.remaining({ server: 'a', featureSet: 'other' }), Infinity);
+
+    now = 60_000;
+    assert.equal(ledger.check(a), undefined);
+    assert.equal(ledger.remaining(a), 60);
+  });
+
+  it('summarizes usage per key and exports it as JSON', async () => {
+    const ledger = new InferenceUsageLedger({ now: () => 0 });
+    ledger.record({ server: 'a', featureSet: 'chat', conversationId: 'c1' }, usage(1, 2));
+    ledger.record({ server: 'a', featureSet: 'chat', conversationId: 'c1' }, usage(3, 4));
+    ledger.record({ server: 'b', featureSet: 'chat' }, usage(5, 6));
+
+    const expected: UsageSnapshot = {
+      from: '1970-01-01T00:00:00.000Z',
+      to: '1970-01-01T00:00:00.000Z',
+      totals: { requests: 3, inputTokens: 9, outputTokens: 12 },
+      entries: [
+        { server: 'a', featureSet: 'chat', conversationId: 'c1', requests: 2, inputTokens: 4, outputTokens: 6 },
+        { server: 'b', featureSet: 'chat', requests: 1, inputTokens: 5, outputTokens: 6 },
+      ],
+    };
+    assert.deepEqual(ledger.snapshot(), expected);
+    assert.deepEqual(ledger.snapshot({ server: 'b' }).totals, { requests: 1, inputTokens: 5, outputTokens: 6 });
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpl-usage-'));
+    try {
+      const file = path.join(dir, 'usage.json');
+      await ledger.export(file);
+      assert.deepEqual(JSON.parse(await fs.readFile(file, 'utf-8')), expected);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('lets the broker refuse requests once a quota is used up', async () => {
+    const [host, server] = streamPair();
+
+    const ledger = new InferenceUsageLedger({ quotas: [{ window: 60_000, maxTokens: 10, tokens: 'output' }] });
+    const broker = new InferenceBroker({ providers: [new EchoInferenceProvider()], ledger });
+    broker.attach(host, 'game');
+
+    const params = { featureSet: 'chat', messages: [{ role: 'user', content: 'a b c d e f' }] };
+    await server.sendRequest(method.INFERENCE_REQUEST, params);
+    await server.sendRequest(method.INFERENCE_REQUEST, params);
+    await assert.rejects(server.sendRequest(method.INFERENCE_REQUEST, params), (err: Error & { code?: number }) => {
+      assert.equal(err.code, ERR_QUOTA_EXCEEDED);
+      return true;
+    });
+    assert.deepEqual(ledger.snapshot().entries, [
+      { server: 'game', featureSet: 'chat', requests: 2, inputTokens: 12, outputTokens: 12 },
+    ]);
+
+    host.close();
+    server.close();
+  });
+
+  it('counts requests in flight against quotas', async () => {
+    const [host, server] = streamPair();
+    const quotas = [{ window: 60_000, maxTokens: 10, tokens: 'output' as const }];
+    const params = { featureSet: 'chat', messages: [{ role: 'user', content: 'a b c d e f' }] };
+    const fire = () =>
+      Promise.allSettled(Array.from({ length: 10 }, () => server.sendRequest(method.INFERENCE_REQUEST, params)));
+    const fulfilled = (results: PromiseSettledResult<unknown>[]) =>
+      results.filter((r) => r.status === 'fulfilled').length;
+
+    // Without maxTokens a request holds a finite default, so a large quota admits them all
+    const large = new InferenceUsageLedger({ quotas: [{ window: 60_000, maxTokens: 1_000_000 }] });
+    new InferenceBroker({ providers: [new EchoInferenceProvider()], ledger: large }).attach(host, 'game');
+    assert.equal(fulfilled(await fire()), 10);
+
+    // With maxTokens (or defaultOutputEstimate) each request holds that much
+    const bounded = new InferenceUsageLedger({ quotas });
+    new InferenceBroker({ providers: [new EchoInferenceProvider()], ledger: bounded, defaults: { maxTokens: 3 } })
+      .attach(host, 'game');
+    assert.equal(fulfilled(await fire()), 4);
+    assert.equal(bounded.snapshot().totals.outputTokens, 12);
+
+    const estimated = new InferenceUsageLedger({ quotas });
+    new InferenceBroker({ providers: [new EchoInferenceProvider()], ledger: estimated, defaultOutputEstimate: 5 })
+      .attach(host, 'game');
+    assert.equal(fulfilled(await fire()), 2);
+
+    // A released reservation frees its share and can't be committed afterwards
+    const ledger = new InferenceUsageLedger({ quotas });
+    const reservation = ledger.reserve({ server: 'a', featureSet: 'chat' }, usage(0, 10));
+    const refused = ledger.check({ server: 'b', featureSet: 'chat' });
+    assert.equal(refused?.code, ERR_QUOTA_EXCEEDED);
+    assert.match(refused.message, /reserved by 1 request\(s\) in flight: 0\/10 used/);
+    reservation.release();
+    reservation.commit(usage(0, 100));
+    assert.equal(ledger.remaining({ server: 'b', featureSet: 'chat' }), 10);
+
+    host.close();
+    server.close();
+  });
+});